@@ -1,4 +1,4 @@
-import type { FbLabel } from './definitions';
+import type { FbLabel, FbPostType } from './definitions';
 
 export const MOBILE_HOST = 'm.facebook.com';
 export const MOBILE_ADDRESS = `https://m.facebook.com${MOBILE_HOST}`;
@@ -9,16 +9,29 @@ export const LABELS: Record<FbLabel, FbLabel> = {
     LISTING: 'LISTING',
     SEARCH: 'SEARCH',
     PAGE: 'PAGE',
+    GROUP: 'GROUP',
+    HASHTAG: 'HASHTAG',
     PHOTO: 'PHOTO',
+    ALBUM: 'ALBUM',
     POST: 'POST',
     VIDEO: 'VIDEO',
+    EVENT: 'EVENT',
 };
 
 export const CSS_SELECTORS = {
     SEE_MORE: '[src*="HOn-DOfNHK1"],[src*="ZfrShcKhxxi"]',
+    POST_TEXT_EXPANDABLE: '.text_exposed_root',
+    POST_TEXT_IGNORE: '.see_more_link, .text_exposed_link, .text_exposed_hide, [role="button"]',
     POST_TIME: 'abbr[data-utime]',
+    POST_TIME_TEXT: 'abbr, [data-testid="story-subtitle"] a[href]',
+    REACTIONS_COUNT: '[data-testid="UFI2ReactionsCount/sentenceWithSocialContext"], [data-testid="UFI2ReactionsCount/root"]',
+    COMMENTS_COUNT: '[data-testid="UFI2CommentsCount/root"]',
+    SHARES_COUNT: '[data-testid="UFI2SharesCount/root"]',
     POST_CONTAINER: '[role="feed"] [role="article"]',
-    PAGE_TRANSPARENCY: '[img*="ot671xmFQRs"]',
+    EVENT_LINK: 'a[href*="/events/"]',
+    POST_HEADER_LINKS: 'h5 a[href], h6 a[href], .fwb a[href]',
+    SHARED_POST: '.userContent ~ div .mtm',
+    PAGE_TRANSPARENCY: 'img[src*="ot671xmFQRs"]',
     MOBILE_CAPTCHA: 'img[src*="/captcha/"]',
     DESKTOP_CAPTCHA: '[data-captcha-class]',
     MOBILE_META: 'meta[name="viewport"]',
@@ -33,7 +46,33 @@ export const CSS_SELECTORS = {
     LOAD_MORE_COMMENTS: 'form[rel="async"] div a[role="button"][href="#"]:not([data-ordering]):not([ajaxify])',
     LDJSON: 'head script[type="application/ld+json"]',
     COMMENT_ORDER: 'form[rel="async"] [data-ordering]',
+    COMMENT_ITEM: 'form[rel="async"] ul li [data-testid^="UFI2Comment/root_depth_"]',
+    COMMENT_SEE_MORE: 'form[rel="async"] ul li [data-testid="UFI2CommentBody/root"] a[role="button"]',
     SERVICES: 'ul li ul li[id]',
+    LISTING_ITEM: '[role="main"] a[href][data-hovercard*="page.php"]',
+    PHOTO_IMAGE: 'img.spotlight, img[data-visualcompletion="media-vc-image"]',
+    PHOTO_CAPTION: '.fbPhotosPhotoCaption, [data-testid="photo_caption"]',
+    PHOTO_NEXT: 'a.snowliftPager.next[href], a[aria-label="Next photo"][href], a[aria-label="Next"][href]',
+    PHOTO_TAGS: '#fbPhotoPageTagList a[href], #fbPhotoSnowliftTagList a[href], .fbPhotosPhotoTagboxes .tagName a[href]',
+    ALBUM_PHOTO: '[role="main"] a[href*="/photos/"] img, [role="main"] a[href*="photo.php"] img, [role="main"] a[href*="/photo/?fbid"] img',
+};
+
+/**
+ * Post types by the story "psn", used when the type can't be found
+ * on the embedded story data
+ */
+export const PSN_POST_TYPES: Record<string, FbPostType> = {
+    EntStatusCreationStory: 'status',
+    EntPhotoNodeBasedEdgeStory: 'photo',
+    EntPhotoCreationStory: 'photo',
+    EntAlbumCreationStory: 'album',
+    EntVideoCreationStory: 'video',
+    EntShareCreationStory: 'link',
+    EntEventCreationStory: 'event',
+    EntLifeEventCreationStory: 'lifeEvent',
+    EntQuestionCreationStory: 'poll',
+    EntCoverPhotoEdgeStory: 'coverPhoto',
+    EntProfilePictureEdgeStory: 'profilePicture',
 };
 
 export const PSN_POST_TYPE_BLACKLIST = [
@@ -1,47 +1,499 @@
-export type FbSection = 'home' | 'posts' | 'about' | 'reviews' | 'services';
-export type FbLabel = 'POST' | 'PHOTO' | 'VIDEO';
+export type FbSection = 'home' | 'posts' | 'about' | 'reviews' | 'services' | 'events' | 'transparency';
+export type FbLabel = 'LISTING' | 'SEARCH' | 'PAGE' | 'GROUP' | 'HASHTAG' | 'POST' | 'PHOTO' | 'ALBUM' | 'VIDEO' | 'EVENT';
 export type FbCommentsMode = 'RANKED_THREADED' | 'RECENT_ACTIVITY' | 'RANKED_UNFILTERED';
 
+/**
+ * Plain url, url with custom userData or a remote list of urls
+ */
+export type FbStartUrl = string | {
+    url: string;
+    userData?: Record<string, any>;
+} | {
+    requestsFromUrl: string;
+    /**
+     * Pattern of the urls inside the list, compiled with the global flag
+     */
+    regex?: string;
+};
+
 export interface Schema {
-    startUrl: string;
+    startUrls?: FbStartUrl[];
+    searchQueries?: string[];
+    maxSearchResults?: number;
+    followListings?: boolean;
     proxyConfiguration?: any;
     language?: string;
     useStealth?: boolean;
     debugLog?: boolean;
-    videoClickTimeout?: number;
+    scrapePosts?: boolean;
+    maxPosts?: number;
+    minPostDate?: string;
+    maxPostDate?: string;
+    excludeBlacklistedPostTypes?: boolean;
+    expandPhotos?: boolean;
+    maxPostPhotos?: number;
+    renderPostText?: boolean;
+    resolveShortLinks?: boolean;
+    commentsMode?: FbCommentsMode;
+    maxPostComments?: number;
+    maxCommentDate?: string;
+    scrapeAbout?: boolean;
+    scrapeReviews?: boolean;
+    maxReviews?: number;
+    maxReviewDate?: string;
+    scrapeServices?: boolean;
+    scrapeEvents?: boolean;
+    scrapeTransparency?: boolean;
+    maxEvents?: number;
+    downloadMedia?: boolean;
+    mediaStoreName?: string;
+    mediaDirectory?: string;
+    maxMediaFileSize?: number;
+    maxMediaTotalSize?: number;
+    extendOutputFunction?: string;
+    extendScraperFunction?: string;
+    customData?: any;
+}
+
+/**
+ * Downloaded copy of an image or video file
+ */
+export interface FbStoredMedia {
+    /**
+     * Key in the media key-value store or file name
+     * in the local media directory
+     */
+    storedKey: string;
+    contentType: string | null;
+    /**
+     * In bytes
+     */
+    size: number;
+    sha256: string;
 }
 
-export interface FbImage {
+/**
+ * Profile or Page tagged on a photo
+ */
+export interface FbImageTag {
+    name: string | null;
+    url: string | null;
+}
+
+export interface FbImage extends Partial<FbStoredMedia> {
     link: string;
+    /**
+     * Full resolution when the photo was expanded
+     */
     imageUrl: string;
+    photoId?: string | null;
+    caption?: string | null;
+    width?: number | null;
+    height?: number | null;
+    reactions?: number | null;
+    comments?: number | null;
+    /**
+     * Automatic accessibility caption, like "May be an image of 2 people and outdoor"
+     */
+    altText?: string | null;
+    /**
+     * What the `altText` describes, without the "May be an image of" part.
+     * The whole `altText` when it isn't in english
+     */
+    description?: string | null;
+    /**
+     * Things detected on the image, parsed from the `altText`
+     */
+    concepts?: string[];
+    /**
+     * Text detected on the image, the "text that says" part of the `altText`
+     */
+    ocrText?: string | null;
+    tags?: FbImageTag[];
 }
 
-export interface FbVideo {
+export interface FbVideoRendition {
+    url: string;
+    quality: string | null;
+    width: number | null;
+    height: number | null;
+    bitrate: number | null;
+    mimeType: string | null;
+}
+
+export interface FbVideo extends Partial<FbStoredMedia> {
     postUrl: string;
-    videoUrl: string;
+    videoId: string | null;
+    /**
+     * Best quality progressive url
+     */
+    videoUrl: string | null;
+    renditions: FbVideoRendition[];
+    dashManifestUrl: string | null;
+    /**
+     * In seconds
+     */
+    duration: number | null;
+    thumbnailUrl: string | null;
+    viewCount: number | null;
+    title: string | null;
+    description: string | null;
+    isLive: boolean;
+    isReel: boolean;
 }
 
 export interface FbPostLink {
+    /**
+     * Destination without the redirects and tracking parameters
+     */
     url: string;
     thumbUrl: string | null;
     domain: string | null;
     title: string | null;
     text: string | null;
+    /**
+     * The url as it appears on the post
+     */
+    originalUrl?: string;
+    /**
+     * Like "bbc.co.uk" for "https://www.bbc.co.uk/news"
+     */
+    registrableDomain?: string | null;
+    description?: string | null;
+}
+
+export type FbTextSegmentType = 'text' | 'mention' | 'hashtag' | 'link' | 'emoji';
+
+/**
+ * Part of the post text, in the order they appear. Joining the `text`
+ * of all segments gives the full post text
+ */
+export interface FbTextSegment {
+    type: FbTextSegmentType;
+    text: string;
+    url?: string | null;
+    /**
+     * Profile or Page id of the mentions
+     */
+    id?: string | null;
+}
+
+export interface FbMention {
+    name: string;
+    url: string | null;
+    id: string | null;
+}
+
+export interface FbInlineLink {
+    text: string;
+    url: string;
+}
+
+export interface FbRichText {
+    mentions: FbMention[];
+    hashtags: string[];
+    inlineLinks: FbInlineLink[];
+    textSegments: FbTextSegment[];
+    postHtml?: string;
+    postMarkdown?: string;
+}
+
+/**
+ * Business found on the /biz/ directory
+ */
+export interface FbListingItem {
+    name: string | null;
+    pageUrl: string;
+    category: string | null;
+    location: string | null;
+    listingUrl: string;
+    listingCategory: string | null;
+    userData?: Record<string, any>;
+}
+
+/**
+ * Post metadata found while scrolling a page timeline
+ */
+export interface FbTimelinePost {
+    publishedTime: number;
+    url: string;
+    isPinned: boolean;
+    postId?: string;
+    /**
+     * The "psn" of the story, like EntStatusCreationStory
+     */
+    storyType?: string | null;
+}
+
+export type FbPostType = 'status' | 'photo' | 'album' | 'video' | 'reel' | 'link' | 'event' | 'checkin' | 'lifeEvent' | 'poll' | 'coverPhoto' | 'profilePicture';
+
+export interface FbPostEvent {
+    name: string | null;
+    url: string | null;
+    startDate: string | null;
+    location: string | null;
+}
+
+export interface FbPostPlace {
+    id: string | null;
+    name: string | null;
+    url: string | null;
+}
+
+export interface FbPollOption {
+    text: string;
+    votes: number | null;
+}
+
+export interface FbPostAlbum {
+    name: string | null;
+    url: string | null;
+    photoCount: number | null;
+}
+
+export interface FbLifeEvent {
+    title: string | null;
+    date: string | null;
+}
+
+/**
+ * Fields that only exist on some post types
+ */
+export interface FbPostTypeFields {
+    postType: FbPostType;
+    event?: FbPostEvent;
+    place?: FbPostPlace;
+    pollOptions?: FbPollOption[];
+    album?: FbPostAlbum;
+    lifeEvent?: FbLifeEvent;
+}
+
+export interface FbComment {
+    name: string | null;
+    profileUrl: string | null;
+    text: string | null;
+    date: string | null;
+    url: string | null;
+    reactionsCount: number;
+    repliesCount: number;
+    replies: FbComment[];
+}
+
+export interface FbPostComments {
+    count: number;
+    mode: FbCommentsMode;
+    comments: FbComment[];
+}
+
+export interface FbPostStats {
+    comments: number | null;
+    reactions: number | null;
+    shares: number | null;
+    views: number | null;
+    reactionsBreakdown: Record<string, number>;
+}
+
+/**
+ * The group a post was posted to
+ */
+export interface FbGroup {
+    groupId: string;
+    name: string | null;
+    url: string;
+}
+
+/**
+ * The original post that was shared by another post
+ */
+export interface FbSharedPost {
+    authorName: string | null;
+    authorUrl: string | null;
+    postId: string | null;
+    postUrl: string | null;
+    postDate: string | null;
+    postText: string | null;
+    postImages: FbImage[];
+    postLinks: FbPostLink[];
 }
 
-export interface FbPost {
+export interface FbPost extends Partial<Omit<FbPostTypeFields, 'postType'>>, Partial<FbRichText> {
+    postType: FbPostType;
+    username?: string;
+    searchQuery?: string;
+    postId?: string | null;
+    isPinned?: boolean;
     postDate: string;
     postText: string;
     postUrl: string;
-    postStats: {
-        reactions: number;
-        shares: number;
-        comments: number;
-    };
+    postStats: FbPostStats;
     postImages: FbImage[];
     postVideos: FbVideo[];
     postLinks: FbPostLink[];
+    postComments?: FbPostComments;
     name: string | null;
     logoUrl: string | null;
     videoPostUrl: string | null;
+    isShare: boolean;
+    sharedPost: FbSharedPost | null;
+    /**
+     * Only on group posts
+     */
+    group?: FbGroup;
+    /**
+     * The member that posted, only on group posts
+     */
+    authorName?: string | null;
+    authorUrl?: string | null;
+    /**
+     * The hashtag feed the post was found on, like "#summer"
+     */
+    hashtag?: string;
+    userData?: Record<string, any>;
+}
+
+export interface FbEventHost {
+    name: string | null;
+    url: string | null;
+}
+
+export interface FbEvent {
+    eventId: string;
+    eventUrl: string;
+    name: string | null;
+    /**
+     * ISO date with the offset of the event timezone when known
+     */
+    startDate: string | null;
+    endDate: string | null;
+    /**
+     * Like "Europe/Prague" or "UTC+02"
+     */
+    timezone: string | null;
+    isPast: boolean | null;
+    locationName: string | null;
+    address: string | null;
+    latitude: number | null;
+    longitude: number | null;
+    hosts: FbEventHost[];
+    description: string | null;
+    ticketUrl: string | null;
+    coverImageUrl: string | null;
+    goingCount: number | null;
+    interestedCount: number | null;
+    /**
+     * The Page the event was found on
+     */
+    username?: string | null;
+    userData?: Record<string, any>;
+}
+
+/**
+ * Subset of the schema.org LocalBusiness that is provided as LD+JSON
+ */
+export interface FbLocalBusiness {
+    '@context': string;
+    '@type': string;
+    name?: string;
+    url?: string;
+    telephone?: string;
+    priceRange?: string;
+    address?: {
+        '@type': string;
+        streetAddress?: string;
+        addressLocality?: string;
+        addressRegion?: string;
+        postalCode?: string;
+    };
+}
+
+export interface FbReview {
+    title: string | null;
+    text: string | null;
+    attributes: string[];
+    url: string | null;
+    canonical: string | null;
+    date: string;
+}
+
+export interface FbPageReviews {
+    average: number;
+    count: number;
+    reviews: FbReview[];
+}
+
+export interface FbService {
+    name: string | null;
+    description: string | null;
+    price: string | null;
+    duration: string | null;
+    imageUrl: string | null;
+}
+
+export interface FbPageNameChange {
+    name: string;
+    date: string | null;
+}
+
+export interface FbPageManagerCountry {
+    country: string;
+    count: number | null;
+}
+
+/**
+ * The "Page Transparency" panel of the about page
+ */
+export interface FbPageTransparency {
+    creationDate: string | null;
+    /**
+     * The names the Page changed to, newest first
+     */
+    nameChanges: FbPageNameChange[];
+    managerCountries: FbPageManagerCountry[];
+    isRunningAds: boolean | null;
+    confirmedOwner: string | null;
+}
+
+export interface FbPage {
+    username?: string;
+    searchQuery?: string;
+    listing?: Omit<FbListingItem, 'pageUrl'>;
+    title: string;
+    pageUrl: string;
+    categories: string[];
+    info: string[];
+    likes: number;
+    messenger: string;
+    priceRange: string;
+    address: {
+        city: string | null;
+        lat: number | null;
+        lng: number | null;
+        postalCode: string | null;
+        region: string | null;
+        street: string | null;
+    };
+    awards: string[];
+    email: string | null;
+    impressum: string[];
+    instagram: string | null;
+    phone: string | null;
+    products: string[];
+    transit: string | null;
+    twitter: string | null;
+    website: string | null;
+    youtube: string | null;
+    mission: string[];
+    overview: string[];
+    payment: string | null;
+    checkins: string;
+    verified: boolean;
+    /**
+     * Numeric id, stays the same when the username changes
+     */
+    pageId?: string | null;
+    transparency?: FbPageTransparency | null;
+    reviews?: FbPageReviews;
+    services?: FbService[];
+    userData?: Record<string, any>;
+    '#startedAt': string;
 }
@@ -1,11 +1,13 @@
 import Apify from 'apify';
 import type { ElementHandle, HTTPResponse, Page } from 'puppeteer';
+import type { IncomingMessage } from 'http';
 import * as moment from 'moment';
 import * as vm from 'vm';
+import * as escapeRegex from 'escape-string-regexp';
 
 import { InfoError } from './error';
 import { CSS_SELECTORS, MOBILE_HOST, DESKTOP_HOST, DESKTOP_ADDRESS, LABELS } from './constants';
-import type { FbLocalBusiness, FbSection, FbLabel, FbReview } from './definitions';
+import type { FbImage, FbLocalBusiness, FbSection, FbLabel, FbReview, FbService } from './definitions';
 
 const { log, sleep } = Apify.utils;
 
@@ -74,7 +76,8 @@ export const storyFbToDesktopPermalink = (url?: string | null, postId?: string)
     }
 
     parsed.searchParams.forEach((_, key) => {
-        if (!['story_fbid', 'id', 'substory_index', 'type'].includes(key)) {
+        // "set" identifies the /media/set/ albums
+        if (!['story_fbid', 'id', 'substory_index', 'type', 'set'].includes(key)) {
             parsed.searchParams.delete(key);
         }
     });
@@ -84,6 +87,160 @@ export const storyFbToDesktopPermalink = (url?: string | null, postId?: string)
     return parsed;
 };
 
+/**
+ * Extract the stable post / video ID from the many url variants, like
+ * story.php?story_fbid=, permalink.php, /posts/<id>, /videos/<id>, /reel/<id>,
+ * /watch/?v=<id>, /photos/a.<album>/<id>
+ */
+export const getPostId = (url?: string | null) => {
+    if (!url) {
+        return null;
+    }
+
+    const parsed = new URL(url, DESKTOP_ADDRESS);
+
+    for (const param of ['story_fbid', 'fbid', 'v']) {
+        const value = parsed.searchParams.get(param);
+
+        if (value && /^\w+$/.test(value)) {
+            return value;
+        }
+    }
+
+    const matches = parsed.pathname.match(/\/(?:posts|permalink|reel|videos(?:\/[^/]+)?|photos\/[^/]+)\/(\w+)/);
+
+    return matches?.[1] ?? null;
+};
+
+/**
+ * The group id or vanity name from /groups/<id>/ urls
+ */
+export const getGroupId = (url?: string | null) => {
+    if (!url) {
+        return null;
+    }
+
+    return new URL(url, DESKTOP_ADDRESS).pathname.match(/^\/groups\/([^/]+)/)?.[1] ?? null;
+};
+
+/**
+ * The event id from /events/<id>/ urls
+ */
+export const getEventId = (url?: string | null) => {
+    if (!url) {
+        return null;
+    }
+
+    return new URL(url, DESKTOP_ADDRESS).pathname.match(/^\/events\/(\d+)/)?.[1] ?? null;
+};
+
+/**
+ * Key used to store the post, the same post arriving from different
+ * urls will share the same key
+ */
+export const getPostKey = (url: string, postId?: string | null) => {
+    return postId || getPostId(url) || storyFbToDesktopPermalink(url)?.toString() || url;
+};
+
+/**
+ * Merge images of the same photo, the values that are already
+ * present are kept unless the new ones have a value
+ */
+export const mergeImages = (current: FbImage[], images: FbImage[]) => {
+    const imageKey = (image: FbImage) => image.photoId || getPostId(image.link) || image.imageUrl;
+    const merged = [...current];
+
+    for (const image of images) {
+        const index = merged.findIndex((existing) => imageKey(existing) === imageKey(image));
+
+        if (index === -1) {
+            merged.push(image);
+            continue; // eslint-disable-line no-continue
+        }
+
+        const result: Record<string, any> = { ...merged[index] };
+
+        for (const [key, value] of Object.entries(image)) {
+            if (value !== null && value !== undefined) {
+                result[key] = value;
+            }
+        }
+
+        merged[index] = result as FbImage;
+    }
+
+    return merged;
+};
+
+/**
+ * Parses the automatic alt text of the images, like
+ * "May be an image of 2 people, outdoor and text that says 'OPEN'"
+ * or "Image may contain: 1 person, smiling".
+ *
+ * Only the english phrasing is understood. On the other languages
+ * the `concepts` and `ocrText` are empty and the `description`
+ * is the whole alt text
+ */
+export const parseAltText = (altText: string | null | undefined) => {
+    const result = {
+        description: altText?.trim() || null,
+        concepts: [] as string[],
+        ocrText: null as string | null,
+    };
+
+    if (!altText) {
+        return result;
+    }
+
+    // can be prefixed by "Photo by Page Name on June 12, 2020."
+    const start = altText.search(/\b(?:image may contain:|may be (?:an? )?[\w\s-]*?\b(?:of|containing)\b)/i);
+
+    if (start === -1) {
+        return result;
+    }
+
+    let description = altText.slice(start)
+        .replace(/^(?:image may contain:|may be (?:an? )?[\w\s-]*?\b(?:of|containing)\b)/i, '')
+        .trim();
+
+    result.description = description || result.description;
+
+    const ocr = description.match(/\btext that says\s+(['"\u2018\u201C])?([\s\S]*)$/i);
+
+    if (ocr) {
+        let text = ocr[2].trim();
+
+        if (ocr[1]) {
+            // the closing quote is the last one, the text may contain quotes
+            text = text.replace(/['"\u2019\u201D]\.?$/, '');
+        }
+
+        result.ocrText = text || null;
+        description = `${description.slice(0, ocr.index)}text`;
+    }
+
+    result.concepts = description
+        .split(/,\s*|\s+and\s+/)
+        .map((concept) => concept.replace(/^and\s+/, '').replace(/\.$/, '').trim())
+        .filter((concept) => concept);
+
+    return result;
+};
+
+/**
+ * Adds the concepts and text found in the alt text to the image
+ */
+export const describeImage = <T extends FbImage>(image: T): T => {
+    if (!image.altText) {
+        return image;
+    }
+
+    return {
+        ...image,
+        ...parseAltText(image.altText),
+    };
+};
+
 /**
  * Convert date types to milliseconds.
  * Supports years '2020', '2010-10-10', 1577836800000, 1577836800, '2020-01-01T00:00:00.000Z'
@@ -374,6 +531,8 @@ export const pageSelectors = {
                 }
 
                 const postId = article.querySelector<HTMLInputElement>('[name="ft_ent_identifier"]')?.value;
+                const ft = article.getAttribute('data-ft') ?? article.querySelector('[data-ft*="psn"]')?.getAttribute('data-ft');
+                const storyType = ft?.match(/"psn":"(\w+)"/)?.[1] ?? null;
 
                 const value = (() => {
                     try {
@@ -382,6 +541,7 @@ export const pageSelectors = {
                             url,
                             isPinned,
                             postId,
+                            storyType,
                         };
 
                         return result;
@@ -458,6 +618,81 @@ export const pageSelectors = {
             };
         })).map((s): FbReview => ({ ...s, canonical: null, date: convertDate(s.date, true) }));
     }),
+    // services section items
+    services: createPageSelector(CSS_SELECTORS.SERVICES, 'services', async (els): Promise<FbService[]> => {
+        return evaluateFilterMap(els, async (el) => {
+            window.unhideChildren(el as HTMLElement);
+
+            const lines = `${(el as HTMLElement).innerText ?? ''}`
+                .split('\n')
+                .map((s) => s.trim())
+                .filter((s) => s);
+
+            if (!lines.length) {
+                return;
+            }
+
+            const [name, ...rest] = lines;
+            // price and duration are usually on the same line, separated by a dot,
+            // and always contain a digit, like "$30 · 1 hr"
+            const details = rest.find((s) => /\d/.test(s) && s.length < 50) ?? null;
+            const [price = null, duration = null] = details?.split(/\s*[·•]\s*/) ?? [];
+            const description = rest.filter((s) => s !== details).join('\n') || null;
+
+            const image = el.querySelector<HTMLElement>('img[src], [style*="background-image"]');
+            const imageUrl = image instanceof HTMLImageElement
+                ? image.src
+                : image?.style.backgroundImage.replace(/(^url\(["']?|["']?\)$)/g, '') || null;
+
+            return {
+                name,
+                description,
+                price,
+                duration,
+                imageUrl,
+            };
+        });
+    }),
+    // businesses from the /biz/ directory
+    listing: createPageSelector(CSS_SELECTORS.LISTING_ITEM, 'listing', async (els) => {
+        return evaluateFilterMap(els, async (el) => {
+            const link = el as HTMLAnchorElement;
+            const name = link.innerText.trim();
+
+            if (!link.href || !name) {
+                return;
+            }
+
+            const container = link.closest<HTMLElement>('li') ?? link.parentElement?.parentElement;
+            const [category = null, location = null] = `${container?.innerText ?? ''}`
+                .split('\n')
+                .map((s) => s.trim())
+                .filter((s) => s && s !== name);
+
+            return {
+                name,
+                pageUrl: link.href,
+                category,
+                location,
+            };
+        });
+    }),
+    albumPhotos: createPageSelector(CSS_SELECTORS.ALBUM_PHOTO, 'albumPhotos', async (els) => {
+        return evaluateFilterMap(els, async (el) => {
+            const image = el as HTMLImageElement;
+            const link = image.closest<HTMLAnchorElement>('a[href]');
+
+            if (!link || !image.src) {
+                return;
+            }
+
+            return {
+                link: link.href,
+                imageUrl: image.src,
+                altText: image.alt || null,
+            };
+        });
+    }),
     latLng: createPageSelector('[style*="static_map.php"]', 'latLng', async (els) => {
         if (!els.length) {
             return { lat: null, lng: null };
@@ -549,19 +784,6 @@ export const setLanguageCodeToCookie = async (language: string, page: Page) => {
     });
 };
 
-/**
- * Workaround the /photos/ url
- */
-export const photoToPost = (url: string) => {
-    const matches = `${url}`.match(/\/photos\/a\.(\d+)/);
-
-    if (matches?.[1]) {
-        return storyFbToDesktopPermalink(url, matches[1])?.toString();
-    }
-
-    return url;
-};
-
 /**
  * Detect the type of url start
  *
@@ -575,7 +797,16 @@ export const getUrlLabel = (url: string): FbLabel => {
         });
     }
 
-    const parsedUrl = new URL(url);
+    let parsedUrl: URL;
+
+    try {
+        parsedUrl = new URL(url);
+    } catch (e) {
+        throw new InfoError('Malformed url provided', {
+            url,
+            namespace: 'getUrlLabel',
+        });
+    }
 
     // works with m.facebook.com, lang-country.facebook.com, www.latest.facebook.com
     if (parsedUrl.hostname.includes('facebook.com')) {
@@ -583,18 +814,47 @@ export const getUrlLabel = (url: string): FbLabel => {
             return LABELS.LISTING;
         }
 
-        if (/\/photos\/a\.\d+/.test(parsedUrl.pathname)) {
+        if (/^\/groups\/[^/]+\/(posts|permalink)\/\w+/.test(parsedUrl.pathname)) {
+            return LABELS.POST;
+        }
+
+        if (/^\/groups\/[^/]+/.test(parsedUrl.pathname)) {
+            return LABELS.GROUP;
+        }
+
+        if (/^\/hashtag\/[^/]+/.test(parsedUrl.pathname)) {
+            return LABELS.HASHTAG;
+        }
+
+        if (parsedUrl.pathname.startsWith('/media/set') || /\/photos\/a\.\d+\/?$/.test(parsedUrl.pathname)) {
+            return LABELS.ALBUM;
+        }
+
+        if (/\/photos\/[^/]+\/\d+/.test(parsedUrl.pathname) || /^\/photo(\.php|\/)/.test(parsedUrl.pathname)) {
             return LABELS.PHOTO;
         }
 
-        if (/\/posts\/\d+/.test(parsedUrl.pathname)) {
+        // the newer post ids are like pfbid02Xb...
+        if (/\/posts\/\w+/.test(parsedUrl.pathname)) {
             return LABELS.POST;
         }
 
-        if (/\/videos\/\d+/.test(parsedUrl.pathname)) {
+        if (/^\/(story|permalink)\.php$/.test(parsedUrl.pathname) && parsedUrl.searchParams.has('story_fbid')) {
+            return LABELS.POST;
+        }
+
+        if (/\/videos\/(?:[^/]+\/)?\d+/.test(parsedUrl.pathname) || /^\/reel\/\d+/.test(parsedUrl.pathname)) {
             return LABELS.VIDEO;
         }
 
+        if (/^\/watch(\/live)?\/?$/.test(parsedUrl.pathname) && parsedUrl.searchParams.has('v')) {
+            return LABELS.VIDEO;
+        }
+
+        if (/^\/events\/\d+/.test(parsedUrl.pathname)) {
+            return LABELS.EVENT;
+        }
+
         if (/\/(pg)?\/?[a-z0-9.\-%]+\/?/i.test(parsedUrl.pathname)) {
             return LABELS.PAGE;
         }
@@ -866,11 +1126,11 @@ export const proxyConfiguration = async ({
     const configuration = await Apify.createProxyConfiguration(proxyConfig);
 
     // this works for custom proxyUrls
-    /*if (required) {
+    /* if (required) {
         if (!configuration || (!configuration.usesApifyProxy && !configuration.proxyUrls?.length) || !configuration.newUrl()) {
             throw new Error(`\n=======\nYou're required to provide a valid proxy configuration\n\n=======`);
         }
-    }*/
+    } */
 
     // check when running on the platform by default
     if (force) {
@@ -890,6 +1150,36 @@ export const proxyConfiguration = async ({
     return configuration as Apify.ProxyConfiguration | undefined;
 };
 
+/**
+ * Options that requestAsBrowser passes down to got,
+ * but that are missing from its typings
+ */
+interface StreamRequestOptions extends Apify.RequestAsBrowserOptions {
+    stream: true;
+    timeoutSecs?: number;
+}
+
+/**
+ * The response properties are copied to the stream
+ */
+export type ResponseStream = IncomingMessage & {
+    statusCode: number;
+    url: string;
+};
+
+/**
+ * Request the url without reading the body. The stream needs to
+ * be consumed or destroyed
+ */
+export const requestStream = async (options: Omit<StreamRequestOptions, 'stream'>): Promise<ResponseStream> => {
+    const streamOptions: StreamRequestOptions = {
+        ...options,
+        stream: true,
+    };
+
+    return Apify.utils.requestAsBrowser(streamOptions);
+};
+
 export interface MinMax {
     min?: number | string;
     max?: number | string;
@@ -1137,6 +1427,15 @@ export const dateRangeItemCounter = (minMax: MinMaxDates) => {
     };
 };
 
+/**
+ * Find the `filename.js:line:column` location of the user code in the error stack
+ */
+export const userCodeLocation = (error: Error, filename: string) => {
+    const matches = `${error?.stack ?? ''}`.match(new RegExp(`${escapeRegex(filename)}:\\d+(?::\\d+)?`));
+
+    return matches?.[0] ?? filename;
+};
+
 type PARAMS<T, CUSTOMDATA = any> = T & {
     Apify: typeof Apify;
     customData: CUSTOMDATA;
@@ -1176,6 +1475,8 @@ export const extendFunction = async <RAW, INPUT extends Record<string, any>, MAP
         customData: input.customData || {},
     } as PARAMS<HELPERS>;
 
+    const filename = `${key}.js`;
+
     const evaledFn = (() => {
         // need to keep the same signature for no-op
         if (typeof input[key] !== 'string' || input[key].trim() === '') {
@@ -1187,13 +1488,19 @@ export const extendFunction = async <RAW, INPUT extends Record<string, any>, MAP
                 lineOffset: 0,
                 produceCachedData: false,
                 displayErrors: true,
-                filename: `${key}.js`,
+                filename,
             });
         } catch (e) {
-            throw new Error(`"${key}" parameter must be a function`);
+            throw new Error(`"${key}" parameter must be a function: ${e.message} (${userCodeLocation(e, filename)})`);
         }
     })();
 
+    const fn = evaledFn.runInThisContext();
+
+    if (typeof fn !== 'function') {
+        throw new Error(`"${key}" parameter must be a function`);
+    }
+
     /**
      * Returning arrays from wrapper function split them accordingly.
      * Normalize to an array output, even for 1 item.
@@ -1216,15 +1523,21 @@ export const extendFunction = async <RAW, INPUT extends Record<string, any>, MAP
                 continue; // eslint-disable-line no-continue
             }
 
-            const result = await (evaledFn.runInThisContext()({
-                ...merged,
-                data,
-                item,
-            }));
+            const result = await (async () => {
+                try {
+                    return await fn({
+                        ...merged,
+                        data,
+                        item,
+                    });
+                } catch (e) {
+                    throw new Error(`Error in "${key}": ${e.message} (${userCodeLocation(e, filename)})`);
+                }
+            })();
 
             for (const out of (Array.isArray(result) ? result : [result])) {
                 if (output) {
-                    if (out !== null) {
+                    if (out !== null && out !== undefined) {
                         await output(out, merged);
                     }
                     // skip output
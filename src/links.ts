@@ -0,0 +1,218 @@
+import Apify from 'apify';
+import * as psl from 'psl';
+
+import { requestStream } from './functions';
+import type { FbPostLink } from './definitions';
+
+const { log } = Apify.utils;
+
+/**
+ * Resolves the url to the final destination, returning null
+ * when it can't be resolved
+ */
+export type RedirectResolver = (url: string) => Promise<string | null>;
+
+const TRACKING_PARAM = /^(?:fbclid|gclid|dclid|msclkid|igshid|mc_cid|mc_eid|_hsenc|_hsmi|utm_\w+|__tn__|__cft__.*|__xts__.*)$/i;
+
+/**
+ * Wrappers that have the destination in the query string,
+ * no request needed to unwrap them
+ */
+const REDIRECT_WRAPPERS = [
+    { hostname: /^l[m]?\.facebook\.com$/, pathname: /^\/l\.php$/, params: ['u'] },
+    { hostname: /^l\.messenger\.com$/, pathname: /^\/l\.php$/, params: ['u'] },
+    { hostname: /^l\.instagram\.com$/, pathname: /^\/$/, params: ['u'] },
+    { hostname: /^(www\.)?google\.[a-z.]+$/, pathname: /^\/url$/, params: ['q', 'url'] },
+    { hostname: /^(www\.)?youtube\.com$/, pathname: /^\/redirect$/, params: ['q'] },
+    { hostname: /^out\.reddit\.com$/, pathname: /^\//, params: ['url'] },
+];
+
+/**
+ * Known url shorteners, they need a request to get the destination
+ */
+export const SHORTENER_HOSTS = [
+    'bit.ly',
+    'buff.ly',
+    'cutt.ly',
+    'dlvr.it',
+    'fb.me',
+    'goo.gl',
+    'ift.tt',
+    'is.gd',
+    'lnkd.in',
+    'ow.ly',
+    'rebrand.ly',
+    'shorturl.at',
+    't.co',
+    't.ly',
+    'tinyurl.com',
+    'trib.al',
+    'amzn.to',
+    'youtu.be',
+];
+
+/**
+ * Parses the url, relative urls need the `base`. Null when it's invalid
+ */
+export const parseUrl = (url: string, base?: string) => {
+    try {
+        return new URL(url, base);
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Unwraps the redirect wrappers, even when nested
+ */
+export const unwrapRedirect = (url: string) => {
+    let current = url;
+
+    // l.facebook.com -> google.com/url -> destination
+    for (let i = 0; i < 5; i++) {
+        const parsed = parseUrl(current);
+        const wrapper = parsed && REDIRECT_WRAPPERS.find(({ hostname, pathname }) => {
+            return hostname.test(parsed.hostname) && pathname.test(parsed.pathname);
+        });
+        const destination = wrapper?.params.map((param) => parsed!.searchParams.get(param)).find((value) => value && parseUrl(value));
+
+        if (!destination) {
+            break;
+        }
+
+        current = destination;
+    }
+
+    return current;
+};
+
+/**
+ * Removes the click tracking parameters, keeps everything else
+ */
+export const stripTracking = (url: string) => {
+    const parsed = parseUrl(url);
+
+    if (!parsed) {
+        return url;
+    }
+
+    for (const param of [...parsed.searchParams.keys()]) {
+        if (TRACKING_PARAM.test(param)) {
+            parsed.searchParams.delete(param);
+        }
+    }
+
+    if (parsed.hash === '#') {
+        parsed.hash = '';
+    }
+
+    return parsed.toString();
+};
+
+/**
+ * Unwraps the redirects and removes the tracking parameters,
+ * so the same destination always gives the same url
+ */
+export const canonicalizeUrl = (url: string) => stripTracking(unwrapRedirect(url));
+
+/**
+ * The part of the hostname that can be registered, like "bbc.co.uk"
+ * for "www.news.bbc.co.uk". Null for ip addresses and unknown suffixes
+ */
+export const getRegistrableDomain = (url: string) => {
+    const parsed = parseUrl(url);
+
+    if (!parsed || !psl.isValid(parsed.hostname)) {
+        return null;
+    }
+
+    return psl.get(parsed.hostname);
+};
+
+/**
+ * Follows the redirects with a real request. The body is never read
+ */
+export const createRedirectResolver = ({ proxyConfig, timeoutSecs = 15 }: {
+    proxyConfig?: Apify.ProxyConfiguration;
+    timeoutSecs?: number;
+} = {}): RedirectResolver => async (url) => {
+    try {
+        const stream = await requestStream({
+            url,
+            proxyUrl: proxyConfig?.newUrl(),
+            timeoutSecs,
+        });
+
+        stream.destroy();
+
+        return stream.statusCode < 400 ? stream.url : null;
+    } catch (e) {
+        log.debug(`Failed to resolve redirect: ${e.message}`, { url });
+
+        return null;
+    }
+};
+
+/**
+ * Normalizes the post links and removes the duplicates. The Open Graph
+ * previews from the page data fill the information that is missing
+ * in the DOM.
+ *
+ * Shortened urls are resolved once per run
+ */
+export const createLinkNormalizer = ({ resolver = null, shortenerHosts = SHORTENER_HOSTS }: {
+    resolver?: RedirectResolver | null;
+    shortenerHosts?: string[];
+} = {}) => {
+    const resolved = new Map<string, Promise<string | null>>();
+
+    const resolve = async (url: string) => {
+        const hostname = parseUrl(url)?.hostname.replace(/^www\./, '');
+
+        if (!resolver || !hostname || !shortenerHosts.includes(hostname)) {
+            return url;
+        }
+
+        if (!resolved.has(url)) {
+            resolved.set(url, resolver(url));
+        }
+
+        const destination = await resolved.get(url);
+
+        return destination ? canonicalizeUrl(destination) : url;
+    };
+
+    return async (links: FbPostLink[], previews: FbPostLink[] = []) => {
+        const normalized = new Map<string, FbPostLink>();
+
+        for (const link of [...links, ...previews]) {
+            const originalUrl = link.originalUrl ?? link.url;
+            const url = await resolve(canonicalizeUrl(originalUrl));
+            const existing = normalized.get(url);
+
+            if (!existing) {
+                normalized.set(url, {
+                    ...link,
+                    url,
+                    originalUrl,
+                    registrableDomain: getRegistrableDomain(url),
+                    description: link.description ?? null,
+                });
+
+                continue; // eslint-disable-line no-continue
+            }
+
+            // keep the first values, fill the missing ones
+            normalized.set(url, {
+                ...existing,
+                thumbUrl: existing.thumbUrl ?? link.thumbUrl,
+                domain: existing.domain ?? link.domain,
+                title: existing.title ?? link.title,
+                text: existing.text ?? link.text,
+                description: existing.description ?? link.description ?? null,
+            });
+        }
+
+        return [...normalized.values()];
+    };
+};
@@ -0,0 +1,491 @@
+/**
+ * Facebook language codes that aren't valid BCP 47 tags or don't have
+ * CLDR data, mapped to the closest locale
+ */
+const LOCALE_ALIASES: Record<string, string> = {
+    'ar-AR': 'ar',
+    'cb-IQ': 'ckb',
+    'co-FR': 'fr',
+    'cx-PH': 'ceb',
+    'eo-EO': 'eo',
+    'es-LA': 'es-419',
+    'gn-PY': 'es',
+    'ht-HT': 'fr',
+    'ja-KS': 'ja',
+    'sy-SY': 'syr',
+    'sz-PL': 'pl',
+    'tl-PH': 'fil',
+    'tz-MA': 'zgh',
+    'zz-TR': 'tr',
+};
+
+/**
+ * Abbreviations that Facebook uses for counts that aren't part
+ * of the CLDR compact formats, by language
+ */
+const COUNT_ALIASES: Record<string, Record<string, number>> = {
+    de: { tsd: 1e3 },
+    es: { mil: 1e3, mill: 1e6 },
+    it: { mila: 1e3, mln: 1e6 },
+    pt: { mil: 1e3, mi: 1e6 },
+    tr: { b: 1e3 },
+};
+
+const UNITS = ['second', 'minute', 'hour', 'day', 'week', 'month', 'year'] as const;
+
+type Unit = typeof UNITS[number];
+
+/**
+ * Relative time abbreviations that Facebook uses that aren't
+ * part of the CLDR data, by language
+ */
+const RELATIVE_ALIASES: Record<string, Record<string, Unit>> = {
+    en: { secs: 'second', mins: 'minute', hrs: 'hour', wks: 'week', yrs: 'year' },
+};
+
+/**
+ * Numbering systems that can appear regardless of the locale
+ */
+const NUMBERING_SYSTEMS = [
+    'arab', 'arabext', 'beng', 'deva', 'gujr', 'guru', 'knda', 'mlym', 'mymr',
+    'orya', 'telu', 'thai', 'laoo', 'khmr', 'tibt', 'fullwide',
+];
+
+/**
+ * The english texts are used when the translation is missing
+ */
+const FALLBACK_LOCALE = 'en';
+
+interface LocaleTable {
+    digits: Map<string, string>;
+    group: string;
+    decimal: string;
+    multipliers: Map<string, number>;
+    relative: Array<{ regex: RegExp; unit: Unit; amount: number | null }>;
+    days: Map<string, number>;
+    months: Map<string, number>;
+    pm: string[];
+}
+
+/**
+ * Get the Intl locale for a `LANGUAGES` code
+ */
+export const toLocale = (language: string) => {
+    const locale = LOCALE_ALIASES[language] ?? language;
+
+    return Intl.NumberFormat.supportedLocalesOf([locale]).length ? locale : FALLBACK_LOCALE;
+};
+
+/**
+ * Letters, including the combining marks of scripts like bengali
+ */
+const LETTER = '[\\p{L}\\p{M}]';
+
+const escapeRegex = (value: string) => value.replace(/[|\\{}()[\]^$+*?.]/g, '\\$&');
+
+const commonAffix = (values: string[], fromEnd: boolean) => {
+    const chars = (value: string) => (fromEnd ? [...value].reverse() : [...value]);
+    const [head = [], ...rest] = values.map(chars);
+    const isShared = (index: number) => rest.every((value) => value[index] === head[index]);
+    let length = 0;
+
+    while (length < head.length && isShared(length)) {
+        length++;
+    }
+
+    const affix = head.slice(0, length);
+
+    return (fromEnd ? affix.reverse() : affix).join('');
+};
+
+/**
+ * Lowercase, single spaced, without abbreviation dots
+ */
+const normalizeText = (text: string, digits?: Map<string, string>) => {
+    return [...text.toLowerCase()]
+        .map((char) => digits?.get(char) ?? char)
+        .join('')
+        .replace(/[\s\u200e\u200f]+/g, ' ')
+        .replace(/(\p{L})\./gu, '$1')
+        .trim();
+};
+
+const UNIT_POWERS = [3, 4, 5, 6, 7, 8, 9, 10, 11, 12];
+
+// years are never relative, "2019 г." isn't "2019 years ago"
+const NUMBER_PATTERN = '(\\d{1,3}(?:[.,]\\d+)?)';
+
+const buildTable = (locale: string): LocaleTable => {
+    const number = new Intl.NumberFormat(locale);
+    const digits = new Map<string, string>();
+
+    for (const numberingSystem of NUMBERING_SYSTEMS) {
+        const format = new Intl.NumberFormat(`en-u-nu-${numberingSystem}`);
+
+        for (let digit = 0; digit < 10; digit++) {
+            digits.set(format.format(digit), `${digit}`);
+        }
+    }
+
+    for (let digit = 0; digit < 10; digit++) {
+        digits.set(number.format(digit), `${digit}`);
+    }
+
+    const parts = number.formatToParts(12345.6);
+    const group = parts.find((part) => part.type === 'group')?.value ?? ',';
+    const decimal = parts.find((part) => part.type === 'decimal')?.value ?? '.';
+    const normalize = (text: string) => normalizeText(text, digits);
+
+    const multipliers = new Map<string, number>();
+
+    for (const compactDisplay of ['short', 'long'] as const) {
+        const compact = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay });
+
+        // different amounts use different plural forms, like "5 آلاف"
+        for (const value of [1, 2, 3, 5].flatMap((factor) => UNIT_POWERS.map((power) => factor * (10 ** power)))) {
+            const formatted = compact.formatToParts(value);
+            const word = formatted.find((part) => part.type === 'compact')?.value;
+            const integer = formatted.filter((part) => part.type === 'integer').map((part) => normalize(part.value)).join('');
+
+            if (word && +integer && !multipliers.has(normalize(word))) {
+                multipliers.set(normalize(word), value / +integer);
+            }
+        }
+    }
+
+    for (const [word, multiplier] of Object.entries(COUNT_ALIASES[locale.split('-')[0]] ?? {})) {
+        if (!multipliers.has(word)) {
+            multipliers.set(word, multiplier);
+        }
+    }
+
+    const relative: LocaleTable['relative'] = [];
+    const placeholder = '\u0000';
+
+    for (const style of ['long', 'short', 'narrow'] as const) {
+        const format = new Intl.RelativeTimeFormat(locale, { style, numeric: 'always' });
+
+        // different amounts use different plural forms
+        for (const amount of [1, 2, 3, 5, 11, 21]) {
+            const patterns = UNITS.map((unit) => {
+                const formatted = format.formatToParts(-amount, unit);
+
+                return {
+                    unit,
+                    hasNumber: formatted.some((part) => part.type === 'integer'),
+                    text: normalize(formatted.map((part) => (part.type === 'literal' ? part.value : placeholder)).join('')),
+                };
+            });
+
+            const withNumber = patterns.filter((pattern) => pattern.hasNumber);
+
+            // the "ago" part, like "vor 2 Std." that is shown as "2 Std."
+            const trimAffix = (affix: string, fromEnd: boolean) => {
+                if (!/\s/.test(affix)) {
+                    return affix;
+                }
+
+                return fromEnd ? affix.slice(affix.search(/\s/)) : affix.slice(0, affix.lastIndexOf(' ') + 1);
+            };
+
+            const prefix = trimAffix(commonAffix(withNumber.map((p) => p.text.split(placeholder)[0]), false), false);
+            const suffix = trimAffix(commonAffix(withNumber.map((p) => p.text.split(placeholder).slice(1).join(placeholder)), true), true);
+
+            for (const pattern of patterns) {
+                const texts = [pattern.text];
+
+                if (pattern.hasNumber) {
+                    const stripped = pattern.text.slice(prefix.length, pattern.text.length - suffix.length).trim();
+
+                    if (/\p{L}/u.test(stripped.replace(placeholder, ''))) {
+                        texts.push(stripped);
+                    }
+                }
+
+                for (const text of texts) {
+                    // "3 d" and "3d" are both used
+                    const source = text.split(placeholder)
+                        .map((piece, index) => escapeRegex(index ? piece.trimStart() : piece.trimEnd()).replace(/ /g, ' ?'))
+                        .join(` ?${NUMBER_PATTERN} ?`);
+
+                    relative.push({
+                        regex: new RegExp(`(?<!${LETTER}|\\d)${source}(?!${LETTER})`, 'u'),
+                        unit: pattern.unit,
+                        amount: pattern.hasNumber ? null : amount,
+                    });
+                }
+            }
+        }
+    }
+
+    for (const [word, unit] of Object.entries(RELATIVE_ALIASES[locale.split('-')[0]] ?? {})) {
+        relative.push({
+            regex: new RegExp(`(?<!${LETTER}|\\d)${NUMBER_PATTERN} ?${escapeRegex(word)}(?!${LETTER})`, 'u'),
+            unit,
+            amount: null,
+        });
+    }
+
+    // more specific first, "2 Std." would match inside "vor 2 Std."
+    relative.sort((a, b) => b.regex.source.length - a.regex.source.length);
+
+    const days = new Map<string, number>();
+    const auto = new Intl.RelativeTimeFormat(locale, { numeric: 'auto' });
+
+    for (const offset of [0, -1, -2]) {
+        const word = normalize(auto.format(offset, 'day'));
+
+        if (!/\d/.test(word)) {
+            days.set(word, offset);
+        }
+    }
+
+    const now = normalize(auto.format(0, 'second'));
+
+    if (!/\d/.test(now)) {
+        relative.push({
+            regex: new RegExp(`(?<!${LETTER})${escapeRegex(now)}(?!${LETTER})`, 'u'),
+            unit: 'second',
+            amount: 0,
+        });
+    }
+
+    const months = new Map<string, number>();
+
+    for (let month = 0; month < 12; month++) {
+        const date = new Date(Date.UTC(2021, month, 15));
+
+        for (const options of [
+            { month: 'long' },
+            { month: 'short' },
+            // genitive forms, like "5 марта"
+            { month: 'long', day: 'numeric' },
+            { month: 'short', day: 'numeric' },
+        ] as Intl.DateTimeFormatOptions[]) {
+            const formatted = new Intl.DateTimeFormat(`${locale}-u-ca-gregory`, { ...options, timeZone: 'UTC' }).formatToParts(date);
+            const index = formatted.findIndex((part) => part.type === 'month');
+            const name = formatted[index]?.value;
+
+            if (!name) {
+                continue; // eslint-disable-line no-continue
+            }
+
+            if (!/^\d+$/.test(normalize(name))) {
+                months.set(normalize(name), month);
+            } else if (formatted[index + 1]?.type === 'literal' && /\p{L}/u.test(formatted[index + 1].value)) {
+                // numeric months with a suffix, like "3月"
+                months.set(normalize(`${name}${formatted[index + 1].value}`), month);
+            }
+        }
+    }
+
+    const pm = new Intl.DateTimeFormat(locale, { hour: 'numeric', hour12: true, timeZone: 'UTC' })
+        .formatToParts(new Date(Date.UTC(2021, 0, 1, 13)))
+        .filter((part) => part.type === 'dayPeriod')
+        .map((part) => normalize(part.value));
+
+    return {
+        digits,
+        group,
+        decimal,
+        multipliers,
+        relative,
+        days,
+        months,
+        pm: [...pm, 'pm'],
+    };
+};
+
+const tables = new Map<string, LocaleTable>();
+
+/**
+ * Get the parsing tables for the language, derived from the Intl data
+ * of the locale, with the english ones as fallback
+ */
+export const getLocaleTable = (language: string): LocaleTable => {
+    const locale = toLocale(language);
+
+    if (!tables.has(locale)) {
+        const table = buildTable(locale);
+
+        if (locale !== FALLBACK_LOCALE) {
+            const fallback = getLocaleTable(FALLBACK_LOCALE);
+
+            for (const [word, multiplier] of fallback.multipliers) {
+                if (!table.multipliers.has(word)) {
+                    table.multipliers.set(word, multiplier);
+                }
+            }
+
+            for (const [word, offset] of fallback.days) {
+                if (!table.days.has(word)) {
+                    table.days.set(word, offset);
+                }
+            }
+
+            table.relative.push(...fallback.relative);
+        }
+
+        tables.set(locale, table);
+    }
+
+    return tables.get(locale)!;
+};
+
+/**
+ * Parse a localized count, that can be abbreviated, like "1,2 mil.", "3,4K",
+ * "1.234 Kommentare" or "123万". Returns null if there's no number in the text
+ */
+export const parseCount = (text: string | null | undefined, language: string): number | null => {
+    if (!text) {
+        return null;
+    }
+
+    const table = getLocaleTable(language);
+    const normalized = normalizeText(text, table.digits);
+    const matches = normalized.match(/(?:([^\s\d]+) ?)?(\d(?:[\d .,'’٫٬]*\d)?) ?([^\s\d]+)?/u);
+
+    if (!matches) {
+        return null;
+    }
+
+    const [, before = '', number, after = ''] = matches;
+    // the arabic separators are only used with the arabic digits
+    const digits = number.replace(/٫/g, '.').replace(/٬/g, ',');
+    // some locales have the abbreviation before the number, like "elfu 1.2"
+    const multiplier = table.multipliers.get(after) ?? table.multipliers.get(before);
+    // abbreviated counts only have one or two decimals, "1,2 mil."
+    // uses a comma even on locales with a dot as decimal separator
+    const decimal = multiplier && /^\d+[.,]\d{1,2}$/.test(digits) ? digits.replace(/[^.,]/g, '') : table.decimal;
+    // the group separator is a space on many locales
+    const groups = new Set([table.group, ',', '.', ' ', '\'', '’']);
+    const value = +[...digits]
+        .filter((char) => !groups.has(char) || char === decimal)
+        .map((char) => (char === decimal ? '.' : char))
+        .join('');
+
+    if (Number.isNaN(value)) {
+        return null;
+    }
+
+    return Math.round(value * (multiplier ?? 1));
+};
+
+const shift = (date: Date, unit: Unit, amount: number) => {
+    const shifted = new Date(date);
+
+    switch (unit) {
+        case 'second': shifted.setSeconds(shifted.getSeconds() - amount); break;
+        case 'minute': shifted.setMinutes(shifted.getMinutes() - amount); break;
+        case 'hour': shifted.setHours(shifted.getHours() - amount); break;
+        case 'day': shifted.setDate(shifted.getDate() - amount); break;
+        case 'week': shifted.setDate(shifted.getDate() - (amount * 7)); break;
+        case 'month': shifted.setMonth(shifted.getMonth() - amount); break;
+        case 'year': shifted.setFullYear(shifted.getFullYear() - amount); break;
+        default:
+    }
+
+    return shifted;
+};
+
+/**
+ * Find the month name in the text. Names can have grammatical
+ * prefixes or suffixes on some languages, like "martxoaren" or "במרץ",
+ * that are only accepted when there's no exact match
+ */
+const findMonth = (text: string, table: LocaleTable) => {
+    // longest first, "juni" contains "jun"
+    const months = [...table.months].sort(([a], [b]) => b.length - a.length);
+
+    const exact = (name: string) => {
+        // numeric names, like "3月" on "2019年3月5日"
+        const before = /^\d/.test(name) ? '(?<!\\d)' : `(?<!${LETTER}|\\d)`;
+
+        return new RegExp(`${before}${escapeRegex(name)}(?!${LETTER})`, 'u').test(text);
+    };
+
+    const suffixed = (name: string) => name.length > 3 && new RegExp(`(?<!${LETTER}|\\d)${escapeRegex(name)}`, 'u').test(text);
+
+    const prefixed = (name: string) => name.length > 2 && new RegExp(`(?<=(?:^|[^\\p{L}\\p{M}\\d])\\p{L})${escapeRegex(name)}(?!${LETTER})`, 'u').test(text);
+
+    return months.find(([name]) => exact(name))
+        ?? months.find(([name]) => suffixed(name) || prefixed(name));
+};
+
+/**
+ * Parse a localized date, either relative like "2 Std.", "5 minutes ago" and
+ * "Yesterday at 14:05", or absolute like "5. März um 14:05" and "March 5, 2019".
+ *
+ * Returns the ISO string, or null if the text can't be parsed
+ */
+export const parseDate = (text: string | null | undefined, language: string, now = new Date()): string | null => {
+    if (!text) {
+        return null;
+    }
+
+    const table = getLocaleTable(language);
+    let normalized = normalizeText(text, table.digits);
+
+    const date = new Date(now);
+    date.setSeconds(0, 0);
+
+    const time = normalized.match(/(?<!\d)(\d{1,2})[:.h](\d{2})(?!\d)/);
+    let hours = 0;
+    let minutes = 0;
+
+    if (time) {
+        hours = +time[1];
+        minutes = +time[2];
+
+        if (hours < 12 && table.pm.some((pm) => pm && normalized.includes(pm))) {
+            hours += 12;
+        }
+
+        normalized = normalized.replace(time[0], ' ');
+    }
+
+    // absolute dates first, "2019 m. kovo 5 d." isn't "5 days ago"
+    const month = findMonth(normalized, table);
+
+    if (month) {
+        const rest = normalized.replace(month[0], ' ');
+        const year = rest.match(/(?<!\d)(\d{4})(?!\d)/);
+        const dayOfMonth = (year ? rest.replace(year[0], ' ') : rest).match(/(?<!\d)(\d{1,2})(?!\d)/);
+
+        if (dayOfMonth) {
+            // buddhist calendar years, used on thai
+            const fullYear = year ? +year[1] - (+year[1] > now.getFullYear() + 500 ? 543 : 0) : date.getFullYear();
+
+            date.setFullYear(fullYear, month[1], +dayOfMonth[1]);
+            date.setHours(hours, minutes);
+
+            // dates without year are from the last 12 months
+            if (!year && date > now) {
+                date.setFullYear(date.getFullYear() - 1);
+            }
+
+            return date.toISOString();
+        }
+    }
+
+    for (const { regex, unit, amount } of table.relative) {
+        const matches = normalized.match(regex);
+
+        if (matches) {
+            const value = amount ?? +`${matches[1]}`.replace(',', '.');
+
+            return shift(now, unit, value).toISOString();
+        }
+    }
+
+    const day = [...table.days].find(([word]) => normalized.includes(word));
+
+    if (day) {
+        date.setDate(date.getDate() + day[1]);
+        date.setHours(hours, minutes);
+
+        return date.toISOString();
+    }
+
+    return null;
+};
@@ -1,22 +1,47 @@
 import Apify from 'apify';
+import type { Page } from 'puppeteer';
 import { InfoError } from './error';
-import { LABELS, CSS_SELECTORS } from './constants';
+import { LABELS, CSS_SELECTORS, PSN_POST_TYPE_BLACKLIST, PSN_POST_TYPES } from './constants';
 import * as fns from './functions';
 import {
     getPostContent,
     getPostInfoFromScript,
-    getVideoUrl,
-    isNotFoundPage,
+    getPostPayload,
+    getSharedPost,
+    getPostType,
+    getPostPhotos,
+    getLinkPreviews,
+    getGroupInfo,
+    getGroupPostInfo,
+    getEventData,
+    getPageEventUrls,
+    getPageId,
+    getPageTransparency,
+    getFullPageTransparency,
+    getPhotoData,
+    getAlbumPhotos,
+    getVideoData,
+    interceptMediaResponses,
+    getPostUrls,
+    getPostComments,
+    getPageHomeInfo,
+    getFieldInfos,
+    getReviews,
+    getSearchResults,
+    getPagesFromListing,
+    getServices,
 } from './page';
 import { statePersistor, emptyState } from './storage';
-import type { Schema, FbLabel, FbPost } from './definitions';
+import { mediaDownloader } from './media';
+import { createLinkNormalizer, createRedirectResolver } from './links';
+import { canonicalizeFacebookUrl, resolveFacebookUrl } from './urls';
+import type { Schema, FbLabel, FbPost, FbPage, FbSection, FbListingItem, FbVideoRendition, FbEvent } from './definitions';
 
 import LANGUAGES = require('./languages.json');
 
 const { log, puppeteer } = Apify.utils;
 
 const {
-    getUrlLabel,
     setLanguageCodeToCookie,
     extractUsernameFromUrl,
     stopwatch,
@@ -24,7 +49,16 @@ const {
     storyFbToDesktopPermalink,
     proxyConfiguration,
     resourceCache,
-    photoToPost,
+    generateSubpagesFromUrl,
+    createAddPageSearch,
+    minMaxDates,
+    normalizeOutputPageUrl,
+    extendFunction,
+    getPostKey,
+    getPostId,
+    getEventId,
+    mergeImages,
+    clickSeeMore,
 } = fns;
 
 Apify.main(async () => {
@@ -35,19 +69,46 @@ Apify.main(async () => {
     }
 
     const {
-        startUrl = null,
+        startUrls = [],
+        searchQueries = [],
+        maxSearchResults = 10,
+        followListings = false,
         language = 'en-US',
         useStealth = false,
         debugLog = false,
-        videoClickTimeout = 2000,
+        scrapePosts = true,
+        maxPosts = 3,
+        minPostDate,
+        maxPostDate,
+        excludeBlacklistedPostTypes = false,
+        expandPhotos = false,
+        maxPostPhotos = 50,
+        renderPostText = false,
+        resolveShortLinks = true,
+        commentsMode = 'RANKED_THREADED',
+        maxPostComments = 15,
+        maxCommentDate,
+        scrapeAbout = false,
+        scrapeReviews = false,
+        maxReviews = 3,
+        maxReviewDate,
+        scrapeServices = false,
+        scrapeEvents = false,
+        scrapeTransparency = false,
+        maxEvents = 20,
+        downloadMedia = false,
+        mediaStoreName,
+        mediaDirectory = 'media',
+        maxMediaFileSize = 50,
+        maxMediaTotalSize = 1000,
     } = input;
 
     if (debugLog) {
         log.setLevel(log.LEVELS.DEBUG);
     }
 
-    if (!startUrl) {
-        throw new Error('You must provide the "startUrl" input');
+    if (!startUrls?.length && !searchQueries?.length) {
+        throw new Error('You must provide the "startUrls" or "searchQueries" input');
     }
 
     const proxyConfig = await proxyConfiguration({
@@ -64,11 +125,72 @@ Apify.main(async () => {
 
     residentialWarning();
 
-    let handlePageTimeoutSecs = 3000;
+    const postDate = minMaxDates({
+        min: minPostDate,
+        max: maxPostDate,
+    });
+
+    const commentDate = minMaxDates({
+        min: maxCommentDate,
+    });
+
+    const reviewDate = minMaxDates({
+        min: maxReviewDate,
+    });
+
+    const excludedStoryTypes = excludeBlacklistedPostTypes ? PSN_POST_TYPE_BLACKLIST : [];
+    // the same types, for the posts that were found without a story "psn"
+    const excludedPostTypes = excludedStoryTypes.map((psn) => PSN_POST_TYPES[psn]);
+
+    const handlePageTimeoutSecs = 3000;
     log.info(`Will use ${handlePageTimeoutSecs}s timeout for page`);
 
+    const failedStartUrls: Array<{ url: string; error: string; }> = [];
+
+    const startUrlSources: Apify.RequestOptions[] = [];
+
+    for (const startUrl of startUrls) {
+        if (typeof startUrl === 'string') {
+            startUrlSources.push({ url: startUrl.trim() });
+        } else if ('requestsFromUrl' in startUrl) {
+            try {
+                // the urls from the remote list go through the same checks
+                const urls = await Apify.utils.downloadListOfUrls({
+                    url: startUrl.requestsFromUrl,
+                    urlRegExp: startUrl.regex ? new RegExp(startUrl.regex, 'g') : undefined,
+                });
+
+                startUrlSources.push(...urls.map((url) => ({ url })));
+            } catch (e) {
+                // an unreachable list shouldn't stop the other start urls
+                log.warning(`Couldn't read the start urls from "${startUrl.requestsFromUrl}": ${e.message}`);
+
+                failedStartUrls.push({
+                    url: startUrl.requestsFromUrl,
+                    error: e.message,
+                });
+            }
+        } else {
+            startUrlSources.push(startUrl);
+        }
+    }
+
     const startUrlsRequests = new Apify.RequestList({
-        sources: [startUrl],
+        sources: startUrlSources.filter(({ url }) => {
+            try {
+                return !!new URL(url);
+            } catch (e) {
+                // a malformed url would make the whole RequestList fail
+                log.warning(`Malformed start url "${url}", skipping`);
+
+                failedStartUrls.push({
+                    url: `${url}`,
+                    error: 'Malformed url',
+                });
+
+                return false;
+            }
+        }),
     });
 
     await startUrlsRequests.initialize();
@@ -77,7 +199,23 @@ Apify.main(async () => {
         throw new Error(`Selected language "${language}" isn't supported`);
     }
 
-    const { map, state, persistState } = await statePersistor();
+    const { map, state, persistState } = await statePersistor<FbPost>();
+    const pages = await statePersistor<FbPage>('PAGES');
+    const listings = await statePersistor<FbListingItem>('LISTINGS');
+    const events = await statePersistor<FbEvent>('EVENTS');
+    // video files that were requested while loading the video page
+    const mediaResponses: WeakMap<Page, () => FbVideoRendition[]> = new WeakMap();
+    const media = downloadMedia ? await mediaDownloader({
+        storeName: mediaStoreName,
+        // the platform storages are the ones that persist
+        directory: Apify.isAtHome() ? undefined : mediaDirectory,
+        maxFileSize: maxMediaFileSize,
+        maxTotalSize: maxMediaTotalSize,
+        proxyConfig,
+    }) : null;
+    const normalizeLinks = createLinkNormalizer({
+        resolver: resolveShortLinks ? createRedirectResolver({ proxyConfig }) : null,
+    });
     const elapsed = stopwatch();
 
     log.info(`Starting crawler with ${startUrlsRequests.length()} urls`);
@@ -93,58 +231,315 @@ Apify.main(async () => {
         processedRequests.add(nextRequest);
     }
 
-    if (!processedRequests.size) {
+    if (!processedRequests.size && !searchQueries.length) {
+        if (failedStartUrls.length) {
+            await Apify.setValue('FAILED_START_URLS', failedStartUrls);
+        }
+
         throw new Error('No requests were loaded from startUrls');
     }
 
-    const initVideoPage = async (url: string, username: string) => {
+    /**
+     * Enqueue the video page. `postKey` is the post that linked the video,
+     * direct video urls are stored as their own post
+     */
+    const initVideoPage = async (url: string, { username, custom = {}, postKey }: {
+        username: string | null;
+        custom?: Record<string, any>;
+        postKey?: string;
+    }) => {
         await requestQueue.addRequest({
-            url: url,
+            url,
+            uniqueKey: `${postKey ?? getPostKey(url)}:${getPostKey(url)}`,
             userData: {
                 label: LABELS.VIDEO,
                 ref: url,
                 useMobile: false,
                 username,
+                custom,
+                postKey,
             },
         }, { forefront: true });
     };
 
+    /**
+     * Enqueue the photo viewer page. `postKey` is the post or album that
+     * contains the photo, direct photo urls are stored as their own post.
+     * `walkSet` follows the viewer to the next photos of the set
+     */
+    const initPhotoPage = async (url: string, { username, custom = {}, origin = {}, postKey, walkSet = false, photoIndex = 0 }: {
+        username: string | null;
+        custom?: Record<string, any>;
+        origin?: Record<string, any>;
+        postKey?: string;
+        walkSet?: boolean;
+        photoIndex?: number;
+    }) => {
+        await requestQueue.addRequest({
+            url,
+            uniqueKey: `photo:${postKey ?? ''}:${getPostKey(url)}`,
+            userData: {
+                label: LABELS.PHOTO,
+                useMobile: false,
+                username,
+                custom,
+                origin,
+                postKey,
+                walkSet,
+                photoIndex,
+            },
+        }, { forefront: true });
+    };
+
+    /**
+     * Enqueue the event page, `username` is the Page that lists the event
+     */
+    const initEventPage = async (url: string, { username = null, custom = {}, origin = {} }: {
+        username?: string | null;
+        custom?: Record<string, any>;
+        origin?: Record<string, any>;
+    }) => {
+        await requestQueue.addRequest({
+            url,
+            uniqueKey: `event:${getEventId(url) ?? url}`,
+            userData: {
+                label: LABELS.EVENT,
+                useMobile: false,
+                username,
+                custom,
+                origin,
+            },
+        });
+    };
+
+    /**
+     * Enqueue the page sections. `origin` tells where the page was
+     * found and it's added to the page and post records. `username` is
+     * the one resolved from the url, read from the url path when missing
+     */
+    const initPage = async (url: string, { username: resolvedUsername = null, custom = {}, origin = {} }: {
+        username?: string | null;
+        custom?: Record<string, any>;
+        origin?: Record<string, any>;
+    }) => {
+        const username = resolvedUsername ?? extractUsernameFromUrl(url);
+
+        const sections: FbSection[] = [];
+
+        if (scrapePosts) {
+            sections.push('posts');
+        }
+
+        // the transparency panel is on the about page
+        if (scrapeAbout || scrapeTransparency) {
+            sections.push('about');
+        }
+
+        if (scrapeReviews) {
+            sections.push('reviews');
+        }
+
+        if (scrapeServices) {
+            sections.push('services');
+        }
+
+        if (scrapeEvents) {
+            sections.push('events');
+        }
+
+        if (!sections.length) {
+            throw new InfoError('Page url provided but "scrapePosts", "scrapeAbout", "scrapeReviews", "scrapeServices", "scrapeEvents" and "scrapeTransparency" are disabled', {
+                url,
+                namespace: 'initPage',
+            });
+        }
+
+        for (const subpage of generateSubpagesFromUrl(url, sections)) {
+            // home page only contains page information
+            if (subpage.section === 'home' && !scrapeAbout && !scrapeReviews && !scrapeServices && !scrapeTransparency) {
+                continue; // eslint-disable-line no-continue
+            }
+
+            await requestQueue.addRequest({
+                url: subpage.url,
+                userData: {
+                    label: LABELS.PAGE,
+                    sub: subpage.section,
+                    useMobile: subpage.useMobile,
+                    username,
+                    custom,
+                    origin,
+                },
+            });
+        }
+    };
+
+    let addedStartUrls = 0;
+    // share links and fb.watch need to be followed to know what they are
+    const shareResolver = createRedirectResolver({ proxyConfig });
+
     for (const request of processedRequests) {
         try {
-            let { url } = request;
-            const urlType = getUrlLabel(url);
+            // custom userData provided on the input, passed through to the output
+            const custom = { ...request.userData };
+            const { label: urlType, url, username, groupId, hashtag } = await resolveFacebookUrl(request.url, shareResolver);
 
-            if (urlType === LABELS.POST || urlType === LABELS.PHOTO) {
-                if (LABELS.PHOTO) {
-                    url = photoToPost(url) ?? url;
+            if (urlType === LABELS.POST) {
+                await requestQueue.addRequest({
+                    url,
+                    uniqueKey: `post:${getPostKey(url)}`,
+                    userData: {
+                        label: LABELS.POST,
+                        useMobile: false,
+                        username,
+                        canonical: storyFbToDesktopPermalink(url)?.toString(),
+                        groupId,
+                        custom,
+                    },
+                });
+
+                addedStartUrls++;
+            } else if (urlType === LABELS.GROUP) {
+                if (!scrapePosts) {
+                    throw new InfoError('Group urls only have posts, enable "scrapePosts" to scrape them', {
+                        url,
+                        namespace: 'startUrls',
+                    });
                 }
 
-                const username = extractUsernameFromUrl(url);
+                await requestQueue.addRequest({
+                    url,
+                    userData: {
+                        label: LABELS.GROUP,
+                        useMobile: false,
+                        groupId,
+                        custom,
+                    },
+                });
+
+                addedStartUrls++;
+            } else if (urlType === LABELS.PHOTO) {
+                await initPhotoPage(url, { username, custom });
 
+                addedStartUrls++;
+            } else if (urlType === LABELS.ALBUM) {
                 await requestQueue.addRequest({
                     url,
                     userData: {
-                        label: LABELS.POST,
+                        label: LABELS.ALBUM,
                         useMobile: false,
                         username,
-                        canonical: storyFbToDesktopPermalink(url)?.toString(),
+                        custom,
                     },
                 });
+
+                addedStartUrls++;
             } else if (urlType === LABELS.VIDEO) {
-                const username = extractUsernameFromUrl(url);
-                await initVideoPage(url, username);
+                await initVideoPage(url, { username, custom });
+
+                addedStartUrls++;
+            } else if (urlType === LABELS.PAGE) {
+                await initPage(url, { username, custom });
+
+                addedStartUrls++;
+            } else if (urlType === LABELS.HASHTAG) {
+                await requestQueue.addRequest({
+                    url,
+                    userData: {
+                        label: LABELS.HASHTAG,
+                        useMobile: false,
+                        custom,
+                        origin: {
+                            hashtag: `#${hashtag}`,
+                        },
+                    },
+                });
+
+                addedStartUrls++;
+            } else if (urlType === LABELS.EVENT) {
+                await initEventPage(url, { custom });
+
+                addedStartUrls++;
+            } else if (urlType === LABELS.LISTING) {
+                await requestQueue.addRequest({
+                    url,
+                    userData: {
+                        label: LABELS.LISTING,
+                        useMobile: false,
+                        custom,
+                    },
+                });
+
+                addedStartUrls++;
             }
         } catch (e) {
+            failedStartUrls.push({
+                url: request.url,
+                error: e.message,
+            });
+
             if (e instanceof InfoError) {
                 // We want to inform the rich error before throwing
                 log.warning(`------\n\n${e.message}\n\n------`, e.toJSON());
             } else {
-                throw e;
+                log.warning(`Failed to add start url: ${e.message}`, { url: request.url });
             }
         }
     }
 
-    //const maxConcurrency = process.env?.MAX_CONCURRENCY ? +process.env.MAX_CONCURRENCY : undefined;
+    if (failedStartUrls.length) {
+        log.warning(`${failedStartUrls.length} start urls couldn't be added, check the FAILED_START_URLS record`);
+
+        await Apify.setValue('FAILED_START_URLS', failedStartUrls);
+
+        if (!addedStartUrls && !searchQueries.length) {
+            throw new Error('None of the provided startUrls are valid Facebook page, directory, post, video, group, event or hashtag urls');
+        }
+    }
+
+    const output: any[] = [];
+
+    const extendOutputFunction = await extendFunction({
+        key: 'extendOutputFunction',
+        output: async (data) => {
+            // one non-object item makes the whole pushData call fail
+            if (typeof data !== 'object' || Array.isArray(data)) {
+                log.warning(`extendOutputFunction returned ${Array.isArray(data) ? 'a nested array' : typeof data}, skipping it`);
+                return;
+            }
+
+            output.push(data);
+        },
+        input,
+        helpers: {
+            fns,
+            LABELS,
+        },
+    });
+
+    const extendScraperFunction = await extendFunction({
+        key: 'extendScraperFunction',
+        input,
+        helpers: {
+            fns,
+            LABELS,
+            requestQueue,
+            map,
+            pages: pages.map,
+        },
+    });
+
+    await extendScraperFunction(undefined, {
+        label: 'SETUP',
+    });
+
+    const addPageSearch = createAddPageSearch(requestQueue);
+
+    for (const searchQuery of searchQueries) {
+        await addPageSearch(searchQuery);
+    }
+
+    // const maxConcurrency = process.env?.MAX_CONCURRENCY ? +process.env.MAX_CONCURRENCY : undefined;
     const cache = resourceCache([
         /rsrc\.php/,
     ]);
@@ -175,7 +570,7 @@ Apify.main(async () => {
         handlePageTimeoutSecs, // more comments, less concurrency
         preNavigationHooks: [async ({ page, request }, gotoOptions) => {
             gotoOptions.waitUntil = 'domcontentloaded';
-            //gotoOptions.waitUntil = 'load';
+            // gotoOptions.waitUntil = 'load';
             gotoOptions.timeout = 20000;
 
             await setLanguageCodeToCookie(language, page);
@@ -185,42 +580,38 @@ Apify.main(async () => {
                     console.log(...args); // eslint-disable-line no-console
                 });
             });
-/*
-            await page.exposeFunction('unhideChildren', (element?: HTMLElement) => {
-                // weird bugs happen in this function, sometimes the dom element has no querySelectorAll for
-                // unknown reasons
-                if (!element) {
-                    return;
-                }
+            // used by the image selectors to be able to read the text
+            // of hidden elements
+            await page.evaluateOnNewDocument(() => {
+                window.unhideChildren = (element?: HTMLElement | null) => {
+                    if (!element) {
+                        return;
+                    }
 
-                element.className = '';
-                if (typeof element.removeAttribute === 'function') {
-                    // weird bug that sometimes removeAttribute isn't a function?
+                    element.className = '';
                     element.removeAttribute('style');
-                }
 
-                if (typeof element.querySelectorAll === 'function') {
                     for (const el of [...element.querySelectorAll<HTMLElement>('*')]) {
                         el.className = ''; // removing the classes usually unhides
-
-                        if (typeof element.removeAttribute === 'function') {
-                            el.removeAttribute('style');
-                        }
+                        el.removeAttribute('style');
                     }
-                }
+                };
             });
-*/
             await cache(page);
 
+            if (request.userData.label === LABELS.VIDEO) {
+                mediaResponses.set(page, interceptMediaResponses(page));
+            }
+
             // make the page a little more lightweight
             await puppeteer.blockRequests(page, {
                 urlPatterns: [
                     '.woff',
                     '.webp',
-                    //'.mov',
-                    //'.mpeg',
-                    //'.mpg',
-                    //'.mp4',
+                    // '.mov',
+                    // '.mpeg',
+                    // '.mpg',
+                    // '.mp4',
                     '.woff2',
                     '.ttf',
                     '.ico',
@@ -267,7 +658,6 @@ Apify.main(async () => {
                 };
                 setTimeout(f);
             });
-
         }],
         handlePageFunction: async ({ request, page, session, browserController }) => {
             const { userData } = request;
@@ -337,46 +727,529 @@ Apify.main(async () => {
 
                     // actually parse post content here, it doesn't work on
                     // mobile address
-                    const { username, canonical } = userData;
+                    const { username, canonical, custom, origin, postId = null, isPinned = false, storyType = null, groupId = null, group = null } = userData;
+
+                    // the newer layout loads the rest of the text on click
+                    await clickSeeMore(page);
 
-                    var [postStats, content] = await Promise.all([
-                        getPostInfoFromScript(page, canonical),
-                        getPostContent(page)
+                    const payload = await getPostPayload(page, canonical, postId);
+
+                    const [postStats, postContent] = await Promise.all([
+                        getPostInfoFromScript(page, payload, language),
+                        getPostContent(page, language, renderPostText),
                     ]);
+                    let content = postContent;
+
+                    const sharedPost = getSharedPost(payload, content.sharedPost);
+                    content.postLinks = await normalizeLinks(content.postLinks ?? [], getLinkPreviews(payload));
 
-                    content = {
-                        ... content,
-                        postStats
+                    if (sharedPost) {
+                        sharedPost.postLinks = await normalizeLinks(sharedPost.postLinks);
                     }
 
-                    await map.write(username, content);
+                    // the DOM only has the first photos of multi-photo posts
+                    content.postImages = mergeImages(content.postImages ?? [], getPostPhotos(payload));
+                    const postTypeFields = await getPostType(page, payload, content, storyType);
 
-                    if (content.videoPostUrl) {
-                        await initVideoPage(content.videoPostUrl, username);
-                    }
+                    if (excludedPostTypes.includes(postTypeFields.postType)) {
+                        log.info(`Skipping excluded post type "${postTypeFields.postType}"`, { url: request.url });
+                    } else {
+                        const groupFields = groupId ? await getGroupPostInfo(page, payload, groupId) : {};
+
+                        if (groupFields.group && !groupFields.group.name) {
+                            // from the group feed
+                            groupFields.group.name = group?.name ?? null;
+                        }
+
+                        const postComments = await getPostComments(page, {
+                            mode: commentsMode,
+                            max: maxPostComments,
+                            date: commentDate,
+                            language,
+                        });
 
-                    log.info(`Processed post in ${postTimer() / 1000}s`, { url: request.url });
+                        content = {
+                            ...content,
+                            ...postTypeFields,
+                            ...groupFields,
+                            ...origin,
+                            username,
+                            postId: postId ?? getPostId(canonical || request.url),
+                            isPinned,
+                            postStats,
+                            isShare: !!sharedPost,
+                            sharedPost,
+                            postComments,
+                            userData: custom,
+                        };
+
+                        if (media) {
+                            // the media urls expire, store them before they do
+                            content = await media.storePostMedia(content);
+                        }
+
+                        const postKey = getPostKey(canonical || request.url, postId);
+
+                        await map.append(postKey, async (value) => ({
+                            ...value,
+                            ...content,
+                            // videos and photos may have been processed already
+                            postVideos: value?.postVideos ?? content.postVideos,
+                            postImages: mergeImages(content.postImages ?? [], value?.postImages ?? []),
+                        }));
+
+                        if (content.videoPostUrl) {
+                            await initVideoPage(content.videoPostUrl, { username, custom, postKey });
+                        }
+
+                        if (expandPhotos && content.postImages?.length) {
+                            const images = content.postImages.slice(0, maxPostPhotos);
+                            // some photos are hidden behind the "+8" tile
+                            const hasHidden = (content.album?.photoCount ?? 0) > images.length;
+
+                            for (const [index, image] of images.entries()) {
+                                await initPhotoPage(image.link, {
+                                    username,
+                                    custom,
+                                    postKey,
+                                    walkSet: hasHidden && index === 0,
+                                });
+                            }
+                        }
+
+                        log.info(`Processed post in ${postTimer() / 1000}s`, { url: request.url });
+                    }
                 } else if (label === LABELS.VIDEO) {
                     const postTimer = stopwatch();
                     log.debug('Started processing video', { url: request.url });
-                    const { username } = userData;
+                    const { username, custom, postKey } = userData;
 
-                    var videoUrl = await getVideoUrl(page, videoClickTimeout);
-                    await map.append(username, async (value) => {
-                        if (value) {
-                            delete value.videoPostUrl;
+                    let video = {
+                        postUrl: request.url,
+                        ...await getVideoData(page, mediaResponses.get(page)?.()),
+                    };
+
+                    if (media) {
+                        [video] = await media.storeVideos([video]);
+                    }
+
+                    const postVideos = (value?: Partial<FbPost>) => [
+                        ...(value?.postVideos ?? []).filter((existing) => existing.postUrl !== request.url),
+                        video,
+                    ];
+
+                    if (postKey) {
+                        await map.append(postKey, async (value) => {
+                            if (value) {
+                                delete value.videoPostUrl;
+                            }
+                            return {
+                                ...value,
+                                username: value?.username ?? username,
+                                userData: value?.userData ?? custom,
+                                postVideos: postVideos(value),
+                            };
+                        });
+                    } else {
+                        // video url provided directly
+                        const postId = video.videoId || getPostId(request.url);
+
+                        await map.append(postId || getPostKey(request.url), async (value) => ({
+                            ...value,
+                            username,
+                            postId,
+                            postType: video.isReel ? 'reel' : 'video',
+                            postUrl: request.url,
+                            postText: video.description ?? '',
+                            postStats: {
+                                comments: null,
+                                reactions: null,
+                                shares: null,
+                                views: video.viewCount,
+                                reactionsBreakdown: {},
+                            },
+                            postImages: value?.postImages ?? [],
+                            postVideos: postVideos(value),
+                            postLinks: value?.postLinks ?? [],
+                            isShare: false,
+                            sharedPost: null,
+                            userData: custom,
+                        }));
+                    }
+                    log.info(`Processed video in ${postTimer() / 1000}s`, { url: request.url });
+                } else if (label === LABELS.GROUP) {
+                    const groupTimer = stopwatch();
+                    log.debug('Started processing group posts', { url: request.url });
+                    const { groupId, custom } = userData;
+
+                    const group = await getGroupInfo(page, groupId);
+
+                    const urls = await getPostUrls(page, {
+                        max: maxPosts,
+                        date: postDate,
+                        excludeStoryTypes: excludedStoryTypes,
+                        onPost: async ({ url, postId, isPinned, storyType }) => {
+                            await requestQueue.addRequest({
+                                url,
+                                uniqueKey: `post:${getPostKey(url, postId)}`,
+                                userData: {
+                                    label: LABELS.POST,
+                                    useMobile: false,
+                                    canonical: url,
+                                    postId,
+                                    isPinned,
+                                    storyType,
+                                    groupId,
+                                    group,
+                                    custom,
+                                },
+                            });
+                        },
+                    });
+
+                    log.info(`Found ${urls.size} group posts in ${groupTimer() / 1000}s`, { url: request.url });
+                } else if (label === LABELS.HASHTAG) {
+                    const hashtagTimer = stopwatch();
+                    log.debug('Started processing hashtag feed', { url: request.url });
+                    const { custom, origin } = userData;
+
+                    const urls = await getPostUrls(page, {
+                        max: maxPosts,
+                        date: postDate,
+                        // ordered by relevance
+                        isChronological: false,
+                        excludeStoryTypes: excludedStoryTypes,
+                        onPost: async ({ url, postId, storyType }) => {
+                            // the posts come from any Page or profile
+                            let username: string | null = null;
+                            try {
+                                ({ username } = canonicalizeFacebookUrl(url));
+                            } catch (e) {
+                                log.debug(`Post url without username: ${e.message}`, { url });
+                            }
+
+                            await requestQueue.addRequest({
+                                url,
+                                uniqueKey: `post:${getPostKey(url, postId)}`,
+                                userData: {
+                                    label: LABELS.POST,
+                                    useMobile: false,
+                                    username,
+                                    canonical: url,
+                                    postId,
+                                    storyType,
+                                    custom,
+                                    origin,
+                                },
+                            });
+                        },
+                    });
+
+                    log.info(`Found ${urls.size} posts for ${origin.hashtag} in ${hashtagTimer() / 1000}s`, { url: request.url });
+                } else if (label === LABELS.EVENT) {
+                    const eventTimer = stopwatch();
+                    const { username = null, custom, origin } = userData;
+
+                    const event = await getEventData(page);
+
+                    await events.map.append(event.eventId, async (value) => ({
+                        ...value,
+                        ...event,
+                        ...origin,
+                        username: value?.username ?? username,
+                        userData: custom,
+                    }));
+
+                    log.info(`Processed event in ${eventTimer() / 1000}s`, { url: request.url });
+                } else if (label === LABELS.PHOTO) {
+                    const photoTimer = stopwatch();
+                    log.debug('Started processing photo', { url: request.url });
+                    const { username, custom, origin, postKey, walkSet, photoIndex } = userData;
+
+                    const { photo: photoData, postDate: photoDate, postStats: photoStats, nextUrl } = await getPhotoData(page, language);
+                    const [photo] = media ? await media.storeImages([photoData]) : [photoData];
+
+                    if (postKey) {
+                        await map.append(postKey, async (value) => ({
+                            ...value,
+                            username: value?.username ?? username,
+                            userData: value?.userData ?? custom,
+                            postImages: mergeImages(value?.postImages ?? [], [photo]),
+                        }));
+                    } else {
+                        // photo url provided directly
+                        await map.append(photo.photoId || getPostKey(request.url), async (value) => ({
+                            ...value,
+                            ...origin,
+                            username,
+                            postId: photo.photoId,
+                            postType: 'photo',
+                            postUrl: request.url,
+                            postDate: photoDate ?? value?.postDate,
+                            postText: photo.caption ?? '',
+                            postStats: photoStats,
+                            postImages: mergeImages(value?.postImages ?? [], [photo]),
+                            postVideos: value?.postVideos ?? [],
+                            postLinks: value?.postLinks ?? [],
+                            isShare: false,
+                            sharedPost: null,
+                            userData: custom,
+                        }));
+                    }
+
+                    if (walkSet && nextUrl && photoIndex + 1 < maxPostPhotos) {
+                        await initPhotoPage(nextUrl, {
+                            username,
+                            custom,
+                            postKey,
+                            walkSet,
+                            photoIndex: photoIndex + 1,
+                        });
+                    }
+
+                    log.info(`Processed photo in ${photoTimer() / 1000}s`, { url: request.url });
+                } else if (label === LABELS.ALBUM) {
+                    const albumTimer = stopwatch();
+                    const { username, custom, origin } = userData;
+                    const postKey = getPostKey(request.url);
+
+                    const album = await getAlbumPhotos(page, { max: maxPostPhotos });
+                    const { name, description } = album;
+                    const photos = media ? await media.storeImages(album.photos) : album.photos;
+
+                    await map.append(postKey, async (value) => ({
+                        ...value,
+                        ...origin,
+                        username,
+                        postType: 'album',
+                        postUrl: request.url,
+                        postText: description ?? '',
+                        album: {
+                            name,
+                            url: request.url,
+                            photoCount: photos.length,
+                        },
+                        postImages: mergeImages(photos, value?.postImages ?? []),
+                        postVideos: value?.postVideos ?? [],
+                        postLinks: value?.postLinks ?? [],
+                        isShare: false,
+                        sharedPost: null,
+                        userData: custom,
+                    }));
+
+                    if (expandPhotos) {
+                        for (const photo of photos) {
+                            await initPhotoPage(photo.link, { username, custom, postKey });
                         }
-                        return {
-                            ... value,
-                            postVideos: [
-                                {
-                                    postUrl: request.url,
-                                    videoUrl: videoUrl
+                    }
+
+                    log.info(`Found ${photos.length} album photos in ${albumTimer() / 1000}s`, { url: request.url });
+                } else if (label === LABELS.PAGE) {
+                    const { username, sub, custom, origin } = userData;
+
+                    if (sub === 'posts') {
+                        const postTimer = stopwatch();
+                        log.debug('Started processing page posts', { url: request.url });
+
+                        const urls = await getPostUrls(page, {
+                            max: maxPosts,
+                            date: postDate,
+                            excludeStoryTypes: excludedStoryTypes,
+                            onPost: async ({ url, postId, isPinned, storyType }) => {
+                                await requestQueue.addRequest({
+                                    url,
+                                    uniqueKey: `post:${getPostKey(url, postId)}`,
+                                    userData: {
+                                        label: LABELS.POST,
+                                        useMobile: false,
+                                        username,
+                                        canonical: url,
+                                        postId,
+                                        isPinned,
+                                        storyType,
+                                        custom,
+                                        origin,
+                                    },
+                                });
+                            },
+                        });
+
+                        log.info(`Found ${urls.size} posts in ${postTimer() / 1000}s`, { url: request.url });
+                    } else if (sub === 'home') {
+                        const homeInfo = await getPageHomeInfo(page);
+
+                        await pages.map.append(username, async (value) => ({
+                            ...emptyState(),
+                            ...value,
+                            ...homeInfo,
+                            ...origin,
+                            username,
+                            pageId: homeInfo.pageId ?? value?.pageId ?? null,
+                            pageUrl: normalizeOutputPageUrl(request.url),
+                            userData: custom,
+                        }));
+                    } else if (sub === 'about') {
+                        const aboutTimer = stopwatch();
+                        log.debug('Started processing page about', { url: request.url });
+
+                        const aboutInfo = scrapeAbout ? await getFieldInfos(page) : {};
+                        const transparencyInfo = scrapeTransparency ? await getPageTransparency(page, language) : null;
+                        const pageId = scrapeTransparency ? await getPageId(page) : null;
+
+                        await pages.map.append(username, async (value) => ({
+                            ...emptyState(),
+                            ...value,
+                            ...aboutInfo,
+                            ...(transparencyInfo ? { transparency: transparencyInfo.transparency } : {}),
+                            pageId: value?.pageId ?? pageId,
+                            ...origin,
+                            username,
+                            pageUrl: normalizeOutputPageUrl(request.url.replace(/\/about\/?$/, '')),
+                            userData: custom,
+                        }));
+
+                        if (transparencyInfo?.fullUrl) {
+                            // the summary is replaced when the full panel is processed
+                            await requestQueue.addRequest({
+                                url: transparencyInfo.fullUrl,
+                                userData: {
+                                    label: LABELS.PAGE,
+                                    sub: 'transparency',
+                                    useMobile: userData.useMobile,
+                                    username,
+                                    custom,
+                                    origin,
+                                },
+                            });
+                        }
+
+                        log.info(`Processed page about in ${aboutTimer() / 1000}s`, { url: request.url });
+                    } else if (sub === 'events') {
+                        const eventsTimer = stopwatch();
+                        log.debug('Started processing page events', { url: request.url });
+
+                        const eventUrls = await getPageEventUrls(page, { max: maxEvents });
+
+                        for (const eventUrl of eventUrls) {
+                            await initEventPage(eventUrl, { username, custom, origin });
+                        }
+
+                        log.info(`Found ${eventUrls.length} events in ${eventsTimer() / 1000}s`, { url: request.url });
+                    } else if (sub === 'reviews') {
+                        const reviewsTimer = stopwatch();
+                        log.debug('Started processing page reviews', { url: request.url });
+
+                        const reviews = await getReviews(page, {
+                            max: maxReviews,
+                            date: reviewDate,
+                        });
+
+                        await pages.map.append(username, async (value) => ({
+                            ...emptyState(),
+                            ...value,
+                            reviews,
+                            ...origin,
+                            username,
+                            pageUrl: normalizeOutputPageUrl(request.url.replace(/\/reviews\/?$/, '')),
+                            userData: custom,
+                        }));
+
+                        log.info(`Got ${reviews.count} reviews in ${reviewsTimer() / 1000}s`, { url: request.url });
+                    } else if (sub === 'services') {
+                        const services = await getServices(page);
+
+                        await pages.map.append(username, async (value) => ({
+                            ...emptyState(),
+                            ...value,
+                            services,
+                            ...origin,
+                            username,
+                            pageUrl: normalizeOutputPageUrl(request.url.replace(/\/services\/?$/, '')),
+                            userData: custom,
+                        }));
+
+                        log.info(`Got ${services.length} services`, { url: request.url });
+                    } else if (sub === 'transparency') {
+                        const transparency = await getFullPageTransparency(page, language);
+
+                        await pages.map.append(username, async (value) => ({
+                            ...emptyState(),
+                            ...value,
+                            transparency,
+                            ...origin,
+                            username,
+                            userData: custom,
+                        }));
+
+                        log.info('Got the full page transparency', { url: request.url });
+                    }
+                } else if (label === LABELS.LISTING) {
+                    const listingTimer = stopwatch();
+                    const { custom } = userData;
+
+                    const { items, nextPageUrl } = await getPagesFromListing(page);
+
+                    for (const { pageUrl, ...listing } of items) {
+                        if (followListings) {
+                            try {
+                                await initPage(pageUrl, {
+                                    custom,
+                                    origin: {
+                                        listing,
+                                    },
+                                });
+                            } catch (e) {
+                                if (!(e instanceof InfoError)) {
+                                    throw e;
                                 }
-                            ]
+
+                                log.warning(e.message, e.toJSON());
+                            }
+                        } else {
+                            await listings.map.write(pageUrl, {
+                                ...listing,
+                                pageUrl,
+                                userData: custom,
+                            });
                         }
+                    }
+
+                    if (nextPageUrl) {
+                        await requestQueue.addRequest({
+                            url: nextPageUrl,
+                            userData: {
+                                label: LABELS.LISTING,
+                                useMobile: false,
+                                custom,
+                            },
+                        });
+                    }
+
+                    log.info(`Found ${items.length} businesses in ${listingTimer() / 1000}s`, { url: request.url, nextPageUrl });
+                } else if (label === LABELS.SEARCH) {
+                    const { searchTerm } = userData;
+
+                    const results = await getSearchResults(page, {
+                        max: maxSearchResults,
                     });
-                    log.info(`Processed video in ${postTimer() / 1000}s`, { url: request.url });
+
+                    log.info(`Found ${results.size} pages for "${searchTerm}"`, { url: request.url });
+
+                    for (const url of results) {
+                        try {
+                            await initPage(url, {
+                                origin: {
+                                    searchQuery: searchTerm,
+                                },
+                            });
+                        } catch (e) {
+                            if (!(e instanceof InfoError)) {
+                                throw e;
+                            }
+
+                            log.warning(e.message, e.toJSON());
+                        }
+                    }
                 }
             } catch (e) {
                 log.debug(e.message, {
@@ -398,6 +1271,13 @@ Apify.main(async () => {
                 throw e;
             }
 
+            await extendScraperFunction(undefined, {
+                page,
+                request,
+                username: userData.username,
+                label: 'HANDLE',
+            });
+
             log.debug(`Done with page ${request.url}`);
         },
         handleFailedRequestFunction: async ({ request, error }) => {
@@ -414,15 +1294,53 @@ Apify.main(async () => {
 
     await crawler.run();
 
+    await extendScraperFunction(undefined, {
+        label: 'FINISH',
+    });
+
     await persistState();
+    await pages.persistState();
+    await listings.persistState();
+    await events.persistState();
 
     log.info('Generating dataset...');
 
     const finished = new Date().toISOString();
 
-    // generate the dataset from all the crawled pages
-    //.filter(s => s.categories?.length)
-    await Apify.pushData([...state.values()].map(val => ({
+    // generate the dataset from all the crawled posts, that can be reshaped
+    // or filtered by the extendOutputFunction
+    for (const val of state.values()) {
+        try {
+            await extendOutputFunction({
+                ...val,
+                "#version": 3, // current data format version
+                '#finishedAt': finished,
+            }, {});
+        } catch (e) {
+            log.exception(e, 'extendOutputFunction', { postUrl: val.postUrl });
+        }
+    }
+
+    await media?.persistState();
+
+    await Apify.pushData(output);
+
+    // businesses from the directory that weren't followed
+    await Apify.pushData([...listings.state.values()].map(val => ({
+        ...val,
+        "#version": 3, // current data format version
+        '#finishedAt': finished,
+    })));
+
+    // events found on the Pages are linked through the username
+    await Apify.pushData([...events.state.values()].map(val => ({
+        ...val,
+        "#version": 3, // current data format version
+        '#finishedAt': finished,
+    })));
+
+    // page records are linked to their posts through the username
+    await Apify.pushData([...pages.state.values()].map(val => ({
         ...val,
         "#version": 3, // current data format version
         '#finishedAt': finished,
@@ -0,0 +1,325 @@
+import Apify from 'apify';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { pipeline, Transform } from 'stream';
+import { promisify } from 'util';
+import type { IncomingMessage } from 'http';
+
+import { InfoError } from './error';
+import { requestStream } from './functions';
+import { statePersistor } from './storage';
+import type { FbImage, FbPost, FbStoredMedia, FbVideo } from './definitions';
+
+const { log } = Apify.utils;
+
+const pipelineAsync = promisify(pipeline);
+
+const MB = 1024 * 1024;
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/gif': 'gif',
+    'image/webp': 'webp',
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+};
+
+/**
+ * Record of the target store, or file of the directory, with the stored
+ * key of each source path. Used to skip the files stored by earlier runs
+ */
+const INDEX_KEY = 'MEDIA_INDEX';
+
+/**
+ * The signed query string and the CDN node change between
+ * requests, the path identifies the file
+ */
+const sourceKey = (url: string) => new URL(url).pathname;
+
+/**
+ * Downloads the post images and videos into a key-value store, or
+ * a local directory, under their content hash. The urls are short-lived,
+ * so the copies can be used for archiving. The files are streamed
+ * to a temporary file while hashing, they are never fully in memory.
+ *
+ * Keeps an index of the downloaded urls that survives migrations
+ */
+export const mediaDownloader = async ({ storeName, directory, maxFileSize, maxTotalSize, proxyConfig }: {
+    storeName?: string;
+    /**
+     * Writes to the local directory instead of the key-value store
+     */
+    directory?: string;
+    /**
+     * In MB
+     */
+    maxFileSize: number;
+    /**
+     * In MB
+     */
+    maxTotalSize: number;
+    proxyConfig?: Apify.ProxyConfiguration;
+}) => {
+    const store = directory ? null : await Apify.openKeyValueStore(storeName);
+    const { state, persistState } = await statePersistor<FbStoredMedia>('MEDIA');
+
+    if (directory) {
+        await fs.promises.mkdir(directory, { recursive: true });
+    }
+
+    const indexPath = directory ? path.join(directory, `${INDEX_KEY}.json`) : null;
+    const storedIndex = store
+        ? await store.getValue(INDEX_KEY)
+        : await fs.promises.readFile(indexPath!, 'utf8').then((json) => JSON.parse(json)).catch(() => null);
+    // the state has the files stored before a migration
+    const index = new Map<string, FbStoredMedia>([...storedIndex as any ?? [], ...state as Map<string, FbStoredMedia>]);
+
+    // the same content stored from different urls only counts once
+    const storedHashes = new Map([...state.values()].map((media) => [media.sha256, media.size ?? 0]));
+    let totalSize = [...storedHashes.values()].reduce((sum, size) => sum + size, 0);
+
+    // on the same device as the destination, so the file can be moved
+    const tempDirectory = directory ?? os.tmpdir();
+
+    /**
+     * Download to a temporary file, hashing the content on the way
+     */
+    const download = async (url: string) => {
+        const stream = await requestStream({
+            url,
+            proxyUrl: proxyConfig?.newUrl(),
+            abortFunction: (res: IncomingMessage) => +(res.headers['content-length'] ?? 0) > maxFileSize * MB,
+        });
+
+        if (stream.statusCode >= 400) {
+            stream.destroy();
+            throw new InfoError(`Status code ${stream.statusCode}`, {
+                url,
+                namespace: 'mediaDownloader',
+            });
+        }
+
+        const hash = crypto.createHash('sha256');
+        const tempPath = path.join(tempDirectory, `.download-${crypto.randomBytes(8).toString('hex')}`);
+        let size = 0;
+
+        try {
+            await pipelineAsync(
+                stream,
+                new Transform({
+                    transform(chunk: Buffer, encoding, callback) {
+                        size += chunk.length;
+
+                        // content-length isn't always present
+                        if (size > maxFileSize * MB) {
+                            callback(new InfoError(`File is bigger than ${maxFileSize}MB`, {
+                                url,
+                                namespace: 'mediaDownloader',
+                            }));
+                            return;
+                        }
+
+                        hash.update(chunk);
+                        callback(null, chunk);
+                    },
+                }),
+                fs.createWriteStream(tempPath),
+            );
+        } catch (e) {
+            await fs.promises.unlink(tempPath).catch(() => null);
+            throw e;
+        }
+
+        return {
+            tempPath,
+            size,
+            sha256: hash.digest('hex'),
+            contentType: `${stream.headers['content-type'] ?? ''}`.split(';')[0].trim() || null,
+        };
+    };
+
+    /**
+     * Check if the file is on its final place already, stored by
+     * this or an earlier run
+     */
+    const isStored = async (storedKey: string) => {
+        if (store) {
+            // the local storage checks the file, the API only has the full record
+            if (store.client.recordExists) {
+                return store.client.recordExists(storedKey) as Promise<boolean>;
+            }
+
+            // only opens the stream, the content isn't read
+            const record = await store.client.getRecord(storedKey, { stream: true }).catch(() => null);
+            record?.value?.destroy?.();
+
+            return !!record;
+        }
+
+        return fs.promises.access(path.join(directory!, storedKey)).then(() => true, () => false);
+    };
+
+    /**
+     * Move the downloaded file to its final place
+     */
+    const save = async (tempPath: string, media: FbStoredMedia) => {
+        if (store) {
+            // setValue only accepts buffers, the storage client accepts streams
+            await store.client.setRecord({
+                key: media.storedKey,
+                value: fs.createReadStream(tempPath),
+                contentType: media.contentType ?? 'application/octet-stream',
+            });
+        } else if (directory) {
+            await fs.promises.rename(tempPath, path.join(directory, media.storedKey));
+        }
+    };
+
+    const storeMedia = async (url: string | null | undefined): Promise<FbStoredMedia | null> => {
+        if (!url) {
+            return null;
+        }
+
+        const key = sourceKey(url);
+        const existing = state.get(key);
+
+        if (existing) {
+            return existing as FbStoredMedia;
+        }
+
+        const indexed = index.get(key);
+
+        if (indexed && await isStored(indexed.storedKey)) {
+            log.debug('Media stored by an earlier run, skipping', { url, storedKey: indexed.storedKey });
+            state.set(key, indexed);
+
+            return indexed;
+        }
+
+        if (totalSize >= maxTotalSize * MB) {
+            log.debug('Media size limit reached, skipping', { url });
+            return null;
+        }
+
+        let tempPath: string | null = null;
+
+        try {
+            const downloaded = await download(url);
+            const { size, sha256, contentType } = downloaded;
+            const extension = EXTENSIONS[contentType ?? ''] ?? path.extname(key).slice(1);
+
+            tempPath = downloaded.tempPath;
+
+            const media: FbStoredMedia = {
+                storedKey: extension ? `${sha256}.${extension}` : sha256,
+                contentType,
+                size,
+                sha256,
+            };
+
+            // the same content can be stored from another url by an earlier run
+            if (!storedHashes.has(sha256) && !await isStored(media.storedKey)) {
+                if (totalSize + media.size > maxTotalSize * MB) {
+                    log.info(`Media size limit of ${maxTotalSize}MB reached`, { url });
+                    return null;
+                }
+
+                await save(tempPath, media);
+
+                storedHashes.set(sha256, media.size);
+                totalSize += media.size;
+            }
+
+            state.set(key, media);
+            index.set(key, media);
+
+            return media;
+        } catch (e) {
+            log.warning(`Failed to download media: ${e.message}`, { url });
+
+            return null;
+        } finally {
+            if (tempPath) {
+                // already moved when stored on the local directory
+                await fs.promises.unlink(tempPath).catch(() => null);
+            }
+        }
+    };
+
+    /**
+     * Adds the stored information to each image
+     */
+    const storeImages = async (images: FbImage[]) => {
+        const stored: FbImage[] = [];
+
+        for (const image of images) {
+            stored.push({
+                ...image,
+                ...await storeMedia(image.imageUrl),
+            });
+        }
+
+        return stored;
+    };
+
+    /**
+     * Adds the stored information to each video
+     */
+    const storeVideos = async (videos: FbVideo[]) => {
+        const stored: FbVideo[] = [];
+
+        for (const video of videos) {
+            stored.push({
+                ...video,
+                ...await storeMedia(video.videoUrl),
+            });
+        }
+
+        return stored;
+    };
+
+    /**
+     * Stores the images and videos of the post and adds
+     * the stored information to each entry
+     */
+    const storePostMedia = async (post: Partial<FbPost>): Promise<Partial<FbPost>> => {
+        if (!post.postImages?.length && !post.postVideos?.length && !post.sharedPost?.postImages.length) {
+            return post;
+        }
+
+        return {
+            ...post,
+            postImages: await storeImages(post.postImages ?? []),
+            postVideos: await storeVideos(post.postVideos ?? []),
+            sharedPost: post.sharedPost ? {
+                ...post.sharedPost,
+                postImages: await storeImages(post.sharedPost.postImages),
+            } : post.sharedPost,
+        };
+    };
+
+    const persistIndex = async () => {
+        const entries = [...index];
+
+        if (store) {
+            await store.setValue(INDEX_KEY, entries);
+        } else if (indexPath) {
+            await fs.promises.writeFile(indexPath, JSON.stringify(entries));
+        }
+    };
+
+    Apify.events.on('persistState', persistIndex);
+
+    return {
+        persistState: async () => {
+            await persistState();
+            await persistIndex();
+        },
+        storeImages,
+        storeVideos,
+        storePostMedia,
+    };
+};
@@ -1,13 +1,58 @@
 import Apify from 'apify';
 import type { Page } from 'puppeteer';
-import * as escapeRegex from 'escape-string-regexp';
-import get = require('lodash.get');
-import type { FbPost, FbPostLink } from './definitions';
+import type {
+    FbComment,
+    FbCommentsMode,
+    FbEvent,
+    FbGroup,
+    FbImage,
+    FbListingItem,
+    FbPage,
+    FbPost,
+    FbPostComments,
+    FbPageReviews,
+    FbPageTransparency,
+    FbPostLink,
+    FbPostType,
+    FbPostTypeFields,
+    FbReview,
+    FbSharedPost,
+    FbTimelinePost,
+    FbVideo,
+    FbVideoRendition,
+} from './definitions';
 import {
     convertDate,
-
+    dateRangeItemCounter,
+    describeImage,
+    getEventId,
+    getUrlLabel,
+    getPostId,
+    imageSelectors,
+    normalizeOutputPageUrl,
+    pageSelectors,
+    scrollUntil,
+    stopwatch,
+    storyFbToDesktopPermalink,
 } from './functions';
-import { CSS_SELECTORS } from './constants';
+import type { MinMaxDates } from './functions';
+import { CSS_SELECTORS, LABELS, PSN_POST_TYPES } from './constants';
+import { InfoError } from './error';
+import { parseCount, parseDate } from './locale';
+import {
+    findObjectLiterals,
+    getEventFromScripts,
+    getGroupPostFromScripts,
+    getLinkPreviewsFromScripts,
+    getPhotoFromScripts,
+    getPhotosFromScripts,
+    getPostStatsFromScripts,
+    getPostTypeFromScripts,
+    getSharedPostFromScripts,
+    getVideoDataFromScripts,
+} from './payload';
+import { toRichText } from './text';
+import type { RawTextSegment } from './text';
 
 const { log, sleep } = Apify.utils;
 
@@ -20,42 +65,143 @@ export const isNotFoundPage = async (page: Page) => {
 };
 
 /**
- * A couple of regex operations on the post page, that contains
- * statistics about the post itself
+ * Fetch the "timeslice" scripts that mention the post, don't want related posts
  */
-export const getPostInfoFromScript = async (page: Page, url: string) => {
-    // fetch "timeslice" scripts, don't want related posts
-    const html = await page.$$eval('script', async (script, postUrl) => {
-        const r = new RegExp(postUrl, 'i');
+const getPostScripts = async (page: Page, url: string, postId?: string | null) => {
+    return page.$$eval('script:not([src])', async (els, needles) => {
+        return els.map((s) => s.innerHTML)
+            .filter((html) => (needles as string[]).some((needle) => html.includes(needle)));
+    }, [url, url?.replace(/\//g, '\\/'), postId].filter((s): s is string => !!s));
+};
 
-        return script.filter((s) => {
-            return r.test(s.innerHTML);
-        }).map((s) => s.innerHTML).join('\n');
-    }, escapeRegex(`url:"${url}`));
+export interface PostPayload {
+    url: string;
+    postId?: string | null;
+    trees: Array<Record<string, any>>;
+}
 
-    const commentsMatch = html.matchAll(/comment_count:{total_count:(\d+)/g);
-    const reactionsMatch = html.matchAll(/reaction_count:{count:(\d+)/g);
-    const shareMatch = html.matchAll(/share_count:{count:(\d+)/g);
+/**
+ * Parse the post scripts once, the payload getters below share the
+ * object literals instead of fetching and parsing them again
+ */
+export const getPostPayload = async (page: Page, url: string, postId?: string | null): Promise<PostPayload> => {
+    const scripts = await getPostScripts(page, url, postId);
 
-    const maxFromMatches = (matches: IterableIterator<RegExpMatchArray>) => [...matches]
-        .reduce((count, [, value]) => (+value > count ? +value : count), 0);
+    return {
+        url,
+        postId,
+        trees: scripts.flatMap(findObjectLiterals),
+    };
+};
 
-    const reactionsBreakdown = (() => {
-        try {
-            return eval(`${html.split('top_reactions:{edges:')?.[1].split('}]}')?.[0]}}]`) as any[]; // eslint-disable-line no-eval
-        } catch (e) {
-            return [];
+/**
+ * Get the statistics about the post from the embedded script payloads,
+ * without evaluating any of the page code
+ */
+export const getPostInfoFromScript = async (page: Page, { trees, url, postId }: PostPayload, language = 'en-US') => {
+    const { stats, missing: missingFromScripts } = getPostStatsFromScripts(trees, { url, postId });
+
+    if (missingFromScripts.length) {
+        // fallback to the localized visible text, like "1,2 Tsd."
+        const visible = await page.evaluate(async (container: string, selectors: Record<string, string>) => {
+            const el = document.querySelector(container);
+            const text = (selector: string) => el?.querySelector<HTMLElement>(selector)?.innerText ?? null;
+
+            return {
+                comments: text(selectors.comments),
+                reactions: text(selectors.reactions),
+                shares: text(selectors.shares),
+            };
+        }, CSS_SELECTORS.POST_CONTAINER, {
+            comments: CSS_SELECTORS.COMMENTS_COUNT,
+            reactions: CSS_SELECTORS.REACTIONS_COUNT,
+            shares: CSS_SELECTORS.SHARES_COUNT,
+        });
+
+        for (const field of missingFromScripts as Array<'comments' | 'reactions' | 'shares'>) {
+            stats[field] = parseCount(visible[field], language);
         }
+    }
+
+    const missing = missingFromScripts.filter((field) => stats[field as keyof typeof stats] === null);
+
+    if (missing.length) {
+        log.warning(`Couldn't find the post ${missing.join(', ')} count`, {
+            url: page.url(),
+            namespace: 'getPostInfoFromScript',
+            missing,
+        });
+    }
+
+    return stats;
+};
+
+/**
+ * Get the original post when the post is a share. The embedded attachment
+ * is preferred, the DOM `fallback` fills what is missing
+ */
+export const getSharedPost = ({ trees, url, postId }: PostPayload, fallback?: FbSharedPost | null): FbSharedPost | null => {
+    const shared = getSharedPostFromScripts(trees, { url, postId });
+
+    if (!shared || !fallback) {
+        return shared ?? fallback ?? null;
+    }
+
+    return {
+        authorName: shared.authorName ?? fallback.authorName,
+        authorUrl: shared.authorUrl ?? fallback.authorUrl,
+        postId: shared.postId ?? fallback.postId,
+        postUrl: shared.postUrl ?? fallback.postUrl,
+        postDate: shared.postDate ?? fallback.postDate,
+        postText: shared.postText ?? fallback.postText,
+        postImages: shared.postImages.length ? shared.postImages : fallback.postImages,
+        postLinks: shared.postLinks.length ? shared.postLinks : fallback.postLinks,
+    };
+};
+
+/**
+ * Detect the post type, from the embedded story data first, then
+ * from the story "psn" and the post content
+ */
+export const getPostType = async (page: Page, { trees, url, postId }: PostPayload, content: Partial<FbPost>, storyType?: string | null): Promise<FbPostTypeFields> => {
+    const fromScripts = getPostTypeFromScripts(trees, { url, postId });
+
+    if (fromScripts && fromScripts.postType !== 'status') {
+        return fromScripts;
+    }
+
+    const psn = storyType ?? await page.$eval(CSS_SELECTORS.POST_CONTAINER, async (el) => {
+        const ft = el.getAttribute('data-ft') ?? el.querySelector('[data-ft*="psn"]')?.getAttribute('data-ft');
+
+        return ft?.match(/"psn":"(\w+)"/)?.[1] ?? null;
+    }).catch(() => null);
+
+    const postType = ((): FbPostType => {
+        if (psn && PSN_POST_TYPES[psn] && PSN_POST_TYPES[psn] !== 'status') {
+            return PSN_POST_TYPES[psn];
+        }
+
+        if (content.videoPostUrl) {
+            return content.videoPostUrl.includes('/reel/') ? 'reel' : 'video';
+        }
+
+        if (content.postImages?.length) {
+            return content.postImages.length > 1 ? 'album' : 'photo';
+        }
+
+        return content.postLinks?.length ? 'link' : 'status';
     })();
 
     return {
-        comments: maxFromMatches(commentsMatch),
-        reactions: maxFromMatches(reactionsMatch),
-        reactionsBreakdown: reactionsBreakdown.reduce((out, node) => {
-            out[`${get(node, ['node', 'reaction_type'], '')}`.toLowerCase()] = node.reaction_count;
-            return out;
-        }, {}),
-        shares: maxFromMatches(shareMatch),
+        ...fromScripts,
+        postType,
+        ...(postType === 'album' && !fromScripts?.album ? {
+            album: {
+                name: null,
+                url: null,
+                photoCount: content.postImages?.length ?? null,
+            },
+        } : {}),
     };
 };
 
@@ -65,34 +211,84 @@ export const getPostInfoFromScript = async (page: Page, url: string) => {
  * Throwing here will propagate to the main error handler,
  * which we are already expecting
  */
-export const getPostContent = async (page: Page): Promise<Partial<FbPost>> => {
+export const getPostContent = async (page: Page, language = 'en-US', renderText = false): Promise<Partial<FbPost>> => {
     await page.waitForSelector(CSS_SELECTORS.POST_CONTAINER);
 
-    const content = await page.$eval(CSS_SELECTORS.POST_CONTAINER, async (el): Promise<Partial<FbPost>> => {
+    const { sharedUtime, postDateText, textSegments, ...content } = await page.$eval(CSS_SELECTORS.POST_CONTAINER, async (el, sharedSelector, timeSelector, textSelectors) => {
         const postDate = (el.querySelector('[data-utime]') as HTMLDivElement)?.dataset?.utime;
+        // the visible localized date, like "Gestern um 14:05"
+        const timeElement = el.querySelector<HTMLElement>(timeSelector as string);
+        const dateText = timeElement?.title || timeElement?.innerText || null;
         const userContent = el.querySelector('.userContent') as HTMLDivElement;
+        // the original post when this post is a share
+        const shared = el.querySelector<HTMLElement>(sharedSelector as string);
+        const isOwn = (child: Element) => !shared?.contains(child);
 
         if (!userContent) {
             throw new Error('Missing .userContent');
         }
 
-        //window.unhideChildren(userContent);
+        // window.unhideChildren(userContent);
+
+        const { expandable, ignore } = textSelectors as Record<string, string>;
+
+        // same as clicking "See more", the rest of the text is already there
+        userContent.querySelectorAll(expandable).forEach((root) => root.classList.add('text_exposed'));
 
         const postText = userContent.innerText.trim();
-        const images: HTMLImageElement[] = Array.from(el.querySelectorAll('img[src*="scontent"]'));
-        const links: HTMLAnchorElement[] = Array.from(el.querySelectorAll('[href*="l.facebook.com/l.php?u="]'));
-        const header: HTMLElement = <HTMLElement>userContent.parentElement?.firstChild
+
+        const segments: RawTextSegment[] = [];
+        const readSegments = (node: Node) => {
+            if (node.nodeType === Node.TEXT_NODE) {
+                segments.push({ type: 'text', text: node.textContent ?? '' });
+                return;
+            }
+
+            if (node.nodeType !== Node.ELEMENT_NODE) {
+                return;
+            }
+
+            const element = node as HTMLElement;
+
+            if (element.matches(ignore) || getComputedStyle(element).display === 'none') {
+                return;
+            }
+
+            if (element.tagName === 'BR') {
+                segments.push({ type: 'text', text: '\n' });
+            } else if (element.tagName === 'IMG') {
+                // emojis can be rendered as images
+                segments.push({ type: 'text', text: (element as HTMLImageElement).alt });
+            } else if (element.tagName === 'A') {
+                segments.push({
+                    type: 'anchor',
+                    text: element.innerText,
+                    href: (element as HTMLAnchorElement).href || null,
+                    hovercard: element.getAttribute('data-hovercard'),
+                });
+            } else {
+                element.childNodes.forEach(readSegments);
+
+                if (element.tagName === 'P' && element.nextElementSibling) {
+                    segments.push({ type: 'text', text: '\n\n' });
+                }
+            }
+        };
+
+        readSegments(userContent);
+        const allImages: HTMLImageElement[] = Array.from(el.querySelectorAll('img[src*="scontent"]'));
+        const allLinks: HTMLAnchorElement[] = Array.from(el.querySelectorAll('[href*="l.facebook.com/l.php?u="]'));
+        const header: HTMLElement = <HTMLElement>userContent.parentElement?.firstChild;
         const avatarUrl: string | null = header?.querySelector('[role="img"]')?.getAttribute('src') || null;
         const headerLinks: HTMLAnchorElement[] = Array.from(header?.querySelectorAll('a'));
         const userName: string | null = headerLinks.find(a => a.innerText)?.innerText || null;
-        var videoPostUrl: string | null = headerLinks.find(a => a.href.includes('/videos/'))?.href || null;
+        let videoPostUrl: string | null = headerLinks.find(a => a.href.includes('/videos/'))?.href || null;
 
         if (videoPostUrl && videoPostUrl.indexOf("?") > 0) {
             videoPostUrl = videoPostUrl.substring(0, videoPostUrl.indexOf("?")).replace('//www.', '//m.');
         }
 
-        const acc: FbPostLink[] = new Array;
-        const postLinks: FbPostLink[] = links.filter(link => link.href).reduce((ret, link) => {
+        const toPostLinks = (links: HTMLAnchorElement[]) => links.filter(link => link.href).reduce((ret, link) => {
             const url = new URL(link.href).searchParams.get('u');
             if (url) {
                 const curUrl = ret.find(l => l.url === url);
@@ -117,77 +313,1188 @@ export const getPostContent = async (page: Page): Promise<Partial<FbPost>> => {
                     }
                 } else {
                     const newUrl: FbPostLink = {
-                        url: url,
-                        thumbUrl: thumbUrl,
+                        url,
+                        thumbUrl,
                         domain: linkDomain,
                         title: linkTitle,
-                        text: linkText
-                    }
+                        text: linkText,
+                    };
                     ret.push(newUrl);
                 }
             }
             return ret;
-        }, acc);
+        }, [] as FbPostLink[]);
+
+        const toPostImages = (images: HTMLImageElement[]) => images.filter(img => img.closest('a[rel="theater"]') && img.src).map((img) => {
+            return {
+                link: img.closest<HTMLAnchorElement>('a[rel="theater"]')!.href,
+                imageUrl: img.src,
+                altText: img.alt || null,
+            };
+        });
+
+        const sharedDate = shared?.querySelector<HTMLElement>('[data-utime]');
+        const sharedAuthor = shared?.querySelector<HTMLAnchorElement>('h5 a, h6 a, .fwb a');
 
         return {
             name: userName,
             logoUrl: avatarUrl,
             postDate,
             postText,
-            postImages: images.filter(img => img.closest('a[rel="theater"]') && img.src).map((img) => {
-                return {
-                    link: img.closest<HTMLAnchorElement>('a[rel="theater"]')!.href,
-                    imageUrl: img.src,
-                };
-            }),
-            postLinks: postLinks,
-            videoPostUrl: videoPostUrl
+            textSegments: segments,
+            postImages: toPostImages(allImages.filter(isOwn)),
+            postLinks: toPostLinks(allLinks.filter(isOwn)),
+            videoPostUrl,
+            postDateText: dateText,
+            sharedUtime: sharedDate?.dataset.utime,
+            sharedPost: shared ? {
+                authorName: sharedAuthor?.innerText.trim() || null,
+                authorUrl: sharedAuthor?.href || null,
+                postId: null,
+                postUrl: sharedDate?.closest('a')?.href || null,
+                postDate: null,
+                postText: shared.querySelector<HTMLElement>('.userContent')?.innerText.trim() || null,
+                postImages: toPostImages(allImages.filter((img) => !isOwn(img))),
+                postLinks: toPostLinks(allLinks.filter((link) => !isOwn(link))),
+            } : null,
         };
+    }, CSS_SELECTORS.SHARED_POST, CSS_SELECTORS.POST_TIME_TEXT, {
+        expandable: CSS_SELECTORS.POST_TEXT_EXPANDABLE,
+        ignore: CSS_SELECTORS.POST_TEXT_IGNORE,
     });
 
     return {
         ...content,
-        postDate: convertDate(content.postDate, true),
+        ...toRichText(textSegments, { render: renderText }),
+        postImages: content.postImages.map(describeImage),
+        postDate: content.postDate
+            ? convertDate(content.postDate, true)
+            : parseDate(postDateText, language) ?? convertDate(content.postDate, true),
         postUrl: page.url(),
+        isShare: !!content.sharedPost,
+        sharedPost: content.sharedPost ? {
+            ...content.sharedPost,
+            postImages: content.sharedPost.postImages.map(describeImage),
+            postDate: sharedUtime ? convertDate(sharedUtime, true) : null,
+        } : null,
     };
 };
 
-export const getVideoUrl = async (page: Page, timeout: number): Promise<string|null> => {
-    await page.waitForTimeout(1000);
-    const waitForCookiePromptHidden = async () => {
+/**
+ * Collect the video files that the page requests while loading, like
+ * autoplaying videos. Needs to be called before the navigation
+ */
+export const interceptMediaResponses = (page: Page) => {
+    const media = new Map<string, FbVideoRendition>();
+
+    page.on('response', (res) => {
         try {
-            const isHidden = await page.$eval('[data-testid="cookie-policy-dialog-accept-button"],[data-cookiebanner="accept_button"],#accept-cookie-banner-label', async (el): Promise<boolean> => {
-                return (<HTMLElement>el).offsetParent === null;
+            const contentType = res.headers()['content-type'] ?? '';
+
+            if (!contentType.startsWith('video/') && !/\.mp4(\?|$)/.test(new URL(res.url()).pathname)) {
+                return;
+            }
+
+            // partial requests, the full file doesn't have the byte range
+            const url = new URL(res.url());
+            url.searchParams.delete('bytestart');
+            url.searchParams.delete('byteend');
+
+            // efg contains the encoding information, like "dash_720p_..."
+            const efg = (() => {
+                try {
+                    return JSON.parse(Buffer.from(url.searchParams.get('efg') ?? '', 'base64').toString('utf8'));
+                } catch (e) {
+                    return null;
+                }
+            })();
+
+            media.set(url.toString(), {
+                url: url.toString(),
+                quality: efg?.vencode_tag ?? null,
+                width: null,
+                height: null,
+                bitrate: efg?.bitrate ?? null,
+                mimeType: contentType.split(';')[0] || null,
             });
+        } catch (e) {
+            log.debug(`Media response error: ${e.message}`);
+        }
+    });
 
-            if (!isHidden) {
-                log.debug('Wait for cookie click...');
-                await page.waitForTimeout(250);
-                await waitForCookiePromptHidden();
-            } else {
-                log.debug('Cookie prompt hidden.');
+    return () => [...media.values()];
+};
+
+/**
+ * Get the video metadata from the embedded video data and the LD+JSON,
+ * along with the intercepted media files. Doesn't need to play the video
+ */
+export const getVideoData = async (page: Page, intercepted: FbVideoRendition[] = []): Promise<Omit<FbVideo, 'postUrl'>> => {
+    const url = page.url();
+    const videoId = getPostId(url);
+
+    const scripts = await page.$$eval('script:not([src])', async (els) => {
+        return els.map((s) => s.innerHTML)
+            .filter((html) => /(hd_src|sd_src|playable_url|dash_manifest)/.test(html));
+    });
+
+    const video = getVideoDataFromScripts(scripts, videoId);
+
+    const meta = await page.evaluate(async () => {
+        const content = (property: string) => document.querySelector<HTMLMetaElement>(`meta[property="${property}"]`)?.content || null;
+        const ld = [...document.querySelectorAll('script[type="application/ld+json"]')].map((el) => {
+            try {
+                return JSON.parse(el.innerHTML);
+            } catch (e) {
+                return null;
+            }
+        }).find((json) => json?.['@type'] === 'VideoObject');
+
+        return {
+            video: content('og:video') ?? content('og:video:url'),
+            width: content('og:video:width'),
+            height: content('og:video:height'),
+            title: content('og:title') ?? ld?.name ?? null,
+            description: content('og:description') ?? ld?.description ?? null,
+            thumbnail: content('og:image') ?? ld?.thumbnailUrl ?? null,
+            duration: ld?.duration ?? null,
+            views: ld?.interactionStatistic?.userInteractionCount ?? null,
+        };
+    });
+
+    const renditions = [...video.renditions];
+
+    for (const rendition of [
+        ...(meta.video ? [{
+            url: meta.video,
+            quality: null,
+            width: meta.width ? +meta.width : null,
+            height: meta.height ? +meta.height : null,
+            bitrate: null,
+            mimeType: 'video/mp4',
+        }] : []),
+        ...intercepted,
+    ]) {
+        if (!renditions.some((r) => r.url === rendition.url)) {
+            renditions.push(rendition);
+        }
+    }
+
+    // ISO 8601 duration, like PT1M30S
+    const ldDuration = (() => {
+        const [, h = 0, m = 0, sec = 0] = `${meta.duration ?? ''}`.match(/^PT(?:(\d+)H)?(?:(\d+)M)?(?:([\d.]+)S)?$/) ?? [];
+        return meta.duration ? (+h * 3600) + (+m * 60) + +sec : null;
+    })();
+
+    // progressive files first, the biggest one first
+    const best = renditions
+        .filter((r) => r.quality === 'hd' || r.quality === 'sd' || (!r.mimeType?.includes('audio') && r.width))
+        .sort((a, b) => (b.quality === 'hd' ? 1 : 0) - (a.quality === 'hd' ? 1 : 0) || (b.width ?? 0) - (a.width ?? 0))[0];
+
+    return {
+        ...video,
+        videoUrl: best?.url ?? renditions[0]?.url ?? null,
+        renditions,
+        duration: video.duration ?? ldDuration,
+        thumbnailUrl: video.thumbnailUrl ?? meta.thumbnail,
+        viewCount: video.viewCount ?? (meta.views !== null ? +meta.views : null),
+        title: video.title ?? meta.title,
+        description: video.description ?? meta.description,
+        isReel: video.isReel || url.includes('/reel/'),
+    };
+};
+
+/**
+ * Get the group and the member that posted the group post. The post
+ * header is used when the page data is missing
+ */
+export const getGroupPostInfo = async (page: Page, { trees, url, postId }: PostPayload, groupId: string): Promise<Pick<FbPost, 'group' | 'authorName' | 'authorUrl'>> => {
+    const { group, author } = getGroupPostFromScripts(trees, { url, postId }, groupId);
+
+    const header = await page.evaluate(async (containerSelector: string, linksSelector: string) => {
+        const links = Array.from(document.querySelector(containerSelector)?.querySelectorAll<HTMLAnchorElement>(linksSelector) ?? []);
+        // "Member ▶ Group"
+        const member = links.find((link) => link.innerText.trim() && !link.href.includes('/groups/'));
+        const groupLink = links.find((link) => link.innerText.trim() && /\/groups\/[^/]+\/?(\?|$)/.test(link.href));
+
+        return {
+            authorName: member?.innerText.trim() || null,
+            authorUrl: member?.href || null,
+            groupName: groupLink?.innerText.trim() || null,
+        };
+    }, CSS_SELECTORS.POST_CONTAINER, CSS_SELECTORS.POST_HEADER_LINKS);
+
+    return {
+        group: {
+            groupId: group?.groupId ?? groupId,
+            name: group?.name ?? header.groupName,
+            url: group?.url ?? `https://www.facebook.com/groups/${groupId}/`,
+        },
+        authorName: author?.name ?? header.authorName,
+        authorUrl: author?.url ?? header.authorUrl,
+    };
+};
+
+/**
+ * Get the name of the group from the group page
+ */
+export const getGroupInfo = async (page: Page, groupId: string): Promise<FbGroup> => {
+    const name = await page.evaluate(async () => {
+        return document.querySelector<HTMLMetaElement>('meta[property="og:title"]')?.content
+            || document.title.replace(/\s*\|\s*Facebook$/, '')
+            || null;
+    });
+
+    return {
+        groupId,
+        name,
+        url: `https://www.facebook.com/groups/${groupId}/`,
+    };
+};
+
+/**
+ * Get the event information from the LD+JSON, with the page data
+ * filling what's missing there, like the guest counts
+ */
+export const getEventData = async (page: Page): Promise<Omit<FbEvent, 'username' | 'userData'>> => {
+    const url = page.url();
+    const eventId = getEventId(url);
+
+    if (!eventId) {
+        throw new InfoError('Invalid event url', {
+            url,
+            namespace: 'getEventData',
+        });
+    }
+
+    const scripts = await page.$$eval('script:not([src])', async (els, id) => {
+        return els.map((s) => s.innerHTML).filter((html) => html.includes(id as string));
+    }, eventId);
+
+    const fromScripts = getEventFromScripts(scripts, eventId);
+
+    const meta = await page.evaluate(async () => {
+        const content = (property: string) => document.querySelector<HTMLMetaElement>(`meta[property="${property}"]`)?.content || null;
+        const toArray = (value: any) => [value ?? []].flat();
+        const ld = [...document.querySelectorAll('script[type="application/ld+json"]')].map((el) => {
+            try {
+                return JSON.parse(el.innerHTML);
+            } catch (e) {
+                return null;
             }
-        } catch (e) {}
+        }).find((json) => /Event$/.test(json?.['@type'] ?? ''));
+
+        const location = toArray(ld?.location)[0];
+        const address = location?.address;
+
+        return {
+            name: ld?.name ?? content('og:title'),
+            // these have the offset, like 2021-06-01T19:00:00+02:00
+            startDate: ld?.startDate ?? null,
+            endDate: ld?.endDate ?? null,
+            locationName: location?.name ?? null,
+            address: typeof address === 'string'
+                ? address
+                : [address?.streetAddress, address?.addressLocality, address?.addressRegion, address?.postalCode, address?.addressCountry]
+                    .filter((part) => part && typeof part === 'string')
+                    .join(', ') || null,
+            latitude: location?.geo?.latitude ?? null,
+            longitude: location?.geo?.longitude ?? null,
+            hosts: toArray(ld?.organizer).map((organizer: any) => ({
+                name: organizer?.name ?? null,
+                url: organizer?.url ?? null,
+            })),
+            description: ld?.description ?? content('og:description'),
+            ticketUrl: toArray(ld?.offers)[0]?.url ?? null,
+            coverImageUrl: toArray(ld?.image)[0] ?? content('og:image'),
+        };
+    });
+
+    const hosts = [...meta.hosts];
+
+    for (const host of fromScripts.hosts) {
+        if (!hosts.some((h) => (h.url && h.url === host.url) || h.name === host.name)) {
+            hosts.push(host);
+        }
+    }
+
+    const startDate = meta.startDate ?? fromScripts.startDate ?? null;
+    const endDate = meta.endDate ?? fromScripts.endDate ?? null;
+    const lastDate = endDate ?? startDate;
+
+    return {
+        eventId,
+        eventUrl: `https://www.facebook.com/events/${eventId}/`,
+        name: meta.name ?? fromScripts.name ?? null,
+        startDate,
+        endDate,
+        timezone: fromScripts.timezone ?? meta.startDate?.match(/([+-]\d{2}:?\d{2}|Z)$/)?.[1] ?? null,
+        isPast: lastDate ? new Date(lastDate).getTime() < Date.now() : null,
+        locationName: meta.locationName ?? fromScripts.locationName ?? null,
+        address: meta.address ?? fromScripts.address ?? null,
+        latitude: meta.latitude !== null ? +meta.latitude : fromScripts.latitude ?? null,
+        longitude: meta.longitude !== null ? +meta.longitude : fromScripts.longitude ?? null,
+        hosts,
+        description: meta.description ?? fromScripts.description ?? null,
+        ticketUrl: meta.ticketUrl ?? fromScripts.ticketUrl ?? null,
+        coverImageUrl: meta.coverImageUrl ?? fromScripts.coverImageUrl ?? null,
+        goingCount: fromScripts.goingCount ?? null,
+        interestedCount: fromScripts.interestedCount ?? null,
     };
-    await waitForCookiePromptHidden();
+};
+
+/**
+ * Scrolls the Page events tab collecting the event urls, the
+ * upcoming ones are listed first, then the past ones
+ */
+export const getPageEventUrls = async (page: Page, { max }: { max: number }) => {
+    const urls = new Map<string, string>();
+    let unchanged = 0;
+
+    if (!max) {
+        return [];
+    }
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        maybeStop: async ({ bodyChanged, scrollChanged }) => {
+            const links = await page.$$eval(CSS_SELECTORS.EVENT_LINK, async (els) => {
+                return els.map((el) => (el as HTMLAnchorElement).href);
+            });
+
+            for (const link of links) {
+                const eventId = getEventId(link);
+
+                if (eventId && !urls.has(eventId) && urls.size < max) {
+                    urls.set(eventId, `https://www.facebook.com/events/${eventId}/`);
+                }
+            }
+
+            unchanged = (!bodyChanged && !scrollChanged) ? unchanged + 1 : 0;
 
-    await page.waitForSelector('.widePic > div > div');
-    await page.waitForTimeout(timeout);
-    const playClicked = await page.$eval('.widePic > div > div', async (el): Promise<boolean> => {
-        (<HTMLDivElement>el).click();
-        return true;
+            return urls.size >= max || unchanged > 3;
+        },
     });
 
-    if (playClicked) {
-        log.debug('Clicked play...');
-        await page.waitForSelector('video', {timeout: 3000});
-        log.debug('Video found...');
-        return await page.$eval('video', async (el): Promise<string|null> => {
-            return (<HTMLVideoElement>el)?.src || null;
+    return [...urls.values()];
+};
+
+/**
+ * Get the link previews of the post from the embedded data, the
+ * DOM is often missing the title and description
+ */
+export const getLinkPreviews = ({ trees, url, postId }: PostPayload) => {
+    return getLinkPreviewsFromScripts(trees, { url, postId });
+};
+
+/**
+ * Get all the photos of the post from the embedded data, as the
+ * DOM only contains the first ones
+ */
+export const getPostPhotos = ({ trees, url, postId }: PostPayload) => {
+    return getPhotosFromScripts(trees, { url, postId }).map(describeImage);
+};
+
+/**
+ * Get the photo information from the photo viewer page, with
+ * the full resolution image. `nextUrl` is the next photo of the set
+ */
+export const getPhotoData = async (page: Page, language = 'en-US') => {
+    const url = page.url();
+    const photoId = getPostId(url);
+    const { trees } = photoId ? await getPostPayload(page, url, photoId) : { trees: [] };
+    const fromScripts = photoId ? getPhotoFromScripts(trees, photoId) : { photo: null, date: null };
+    const { stats } = getPostStatsFromScripts(trees, { url, postId: photoId });
+
+    const dom = await page.evaluate(async (selectors: Record<string, string>) => {
+        const text = (selector: string) => document.querySelector<HTMLElement>(selector)?.innerText?.trim() || null;
+        const image = document.querySelector<HTMLImageElement>(selectors.image);
+
+        return {
+            imageUrl: image?.src || document.querySelector<HTMLMetaElement>('meta[property="og:image"]')?.content || null,
+            altText: image?.alt || null,
+            tags: Array.from(document.querySelectorAll<HTMLAnchorElement>(selectors.tags)).map((link) => ({
+                name: link.innerText.trim() || null,
+                url: link.href,
+            })),
+            width: image?.naturalWidth || null,
+            height: image?.naturalHeight || null,
+            caption: text(selectors.caption),
+            utime: document.querySelector<HTMLElement>('abbr[data-utime]')?.dataset.utime ?? null,
+            nextUrl: document.querySelector<HTMLAnchorElement>(selectors.next)?.href || null,
+            comments: text(selectors.comments),
+            reactions: text(selectors.reactions),
+        };
+    }, {
+        image: CSS_SELECTORS.PHOTO_IMAGE,
+        caption: CSS_SELECTORS.PHOTO_CAPTION,
+        next: CSS_SELECTORS.PHOTO_NEXT,
+        tags: CSS_SELECTORS.PHOTO_TAGS,
+        comments: CSS_SELECTORS.COMMENTS_COUNT,
+        reactions: CSS_SELECTORS.REACTIONS_COUNT,
+    });
+
+    const imageUrl = fromScripts.photo?.imageUrl ?? dom.imageUrl;
+
+    if (!imageUrl) {
+        throw new InfoError('Photo not found', {
+            url,
+            namespace: 'getPhotoData',
+            selector: CSS_SELECTORS.PHOTO_IMAGE,
         });
     }
 
-    log.debug('No play ...');
-    return null;
+    const photo: FbImage = describeImage({
+        link: url,
+        imageUrl,
+        photoId,
+        caption: fromScripts.photo?.caption ?? dom.caption,
+        width: fromScripts.photo?.width ?? dom.width,
+        height: fromScripts.photo?.height ?? dom.height,
+        reactions: stats.reactions ?? parseCount(dom.reactions, language),
+        comments: stats.comments ?? parseCount(dom.comments, language),
+        altText: fromScripts.photo?.altText ?? dom.altText,
+        tags: fromScripts.photo?.tags?.length ? fromScripts.photo.tags : dom.tags,
+    });
+
+    return {
+        photo,
+        postDate: fromScripts.date ?? (dom.utime ? convertDate(dom.utime, true) : null),
+        postStats: {
+            ...stats,
+            reactions: photo.reactions ?? null,
+            comments: photo.comments ?? null,
+        },
+        // the viewer loops back to the first photo
+        nextUrl: dom.nextUrl && getPostId(dom.nextUrl) !== photoId ? dom.nextUrl : null,
+    };
+};
+
+/**
+ * Scroll the album grid collecting the photos, until `max` photos are found
+ */
+export const getAlbumPhotos = async (page: Page, { max }: { max: number }) => {
+    const photos = new Map<string, FbImage>();
+    let unchanged = 0;
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        maybeStop: async ({ bodyChanged, scrollChanged }) => {
+            for (const photo of await pageSelectors.albumPhotos(page)) {
+                const photoId = getPostId(photo.link);
+
+                if (photoId && !photos.has(photoId) && photos.size < max) {
+                    photos.set(photoId, describeImage({ ...photo, photoId }));
+                }
+            }
+
+            unchanged = (!bodyChanged && !scrollChanged) ? unchanged + 1 : 0;
+
+            return photos.size >= max || unchanged > 3;
+        },
+    });
+
+    const info = await page.evaluate(async () => {
+        const meta = (property: string) => document.querySelector<HTMLMetaElement>(`meta[property="${property}"]`)?.content || null;
+
+        return {
+            name: meta('og:title') ?? document.querySelector<HTMLElement>('[role="main"] h1, [role="main"] h2')?.innerText ?? null,
+            description: meta('og:description'),
+        };
+    });
+
+    return {
+        ...info,
+        photos: [...photos.values()],
+    };
 };
 
+/**
+ * Scrolls the page timeline collecting the post permalinks, until `max`
+ * posts are found or the timeline leaves the provided date range.
+ *
+ * Pinned posts are out of the chronological order, so they never
+ * count towards leaving the date range
+ */
+export const getPostUrls = async (page: Page, {
+    max,
+    date,
+    onPost,
+    excludeStoryTypes = [],
+    isChronological = true,
+}: {
+    max: number;
+    date: MinMaxDates;
+    onPost: (post: FbTimelinePost) => Promise<void>;
+    /**
+     * Story "psn" to skip, they don't count towards max
+     */
+    excludeStoryTypes?: string[];
+    /**
+     * Feeds ordered by relevance, like the hashtag feed, can't stop
+     * when the posts get older than the date range
+     */
+    isChronological?: boolean;
+}) => {
+    const urls = new Set<string>();
+
+    if (!max) {
+        return urls;
+    }
+
+    const counter = dateRangeItemCounter(date);
+    let unchanged = 0;
+
+    await page.waitForSelector(CSS_SELECTORS.POST_TIME, { timeout: 15000 });
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        maybeStop: async ({ bodyChanged, scrollChanged }) => {
+            const posts: FbTimelinePost[] = await pageSelectors.posts(page);
+
+            counter.empty(!posts.length);
+            counter.add(posts.length);
+
+            for (const post of posts) {
+                if (urls.size >= max) {
+                    break;
+                }
+
+                const inRange = post.isPinned
+                    ? date.compare(post.publishedTime)
+                    : counter.time(post.publishedTime);
+
+                if (!inRange) {
+                    continue; // eslint-disable-line no-continue
+                }
+
+                if (post.storyType && excludeStoryTypes.includes(post.storyType)) {
+                    log.debug('Skipping excluded post type', { url: post.url, storyType: post.storyType });
+                    continue; // eslint-disable-line no-continue
+                }
+
+                const url = storyFbToDesktopPermalink(post.url)?.toString();
+
+                if (!url || urls.has(url)) {
+                    continue; // eslint-disable-line no-continue
+                }
+
+                urls.add(url);
+
+                await onPost({
+                    ...post,
+                    url,
+                });
+            }
+
+            unchanged = (!bodyChanged && !scrollChanged) ? unchanged + 1 : 0;
+
+            if (unchanged > 5) {
+                log.debug('Timeline stopped loading', { url: page.url(), found: urls.size });
+                return true;
+            }
+
+            if (!isChronological) {
+                return urls.size >= max;
+            }
+
+            // timeline is ordered from newest to oldest, a few posts older
+            // than the minimum date means there's nothing else to get
+            if (counter.stats().min.older > 2) {
+                log.debug('Timeline reached the minimum date', { url: page.url(), found: urls.size });
+                return true;
+            }
+
+            return urls.size >= max || counter.isOver();
+        },
+    });
+
+    return urls;
+};
+
+/**
+ * Switch the comments ordering to the selected mode, if not already selected
+ */
+const setCommentsOrder = async (page: Page, mode: FbCommentsMode) => {
+    const current = await page.$eval(CSS_SELECTORS.COMMENT_ORDER, (el) => (el as HTMLElement).dataset.ordering)
+        .catch(() => null);
+
+    if (!current || current === mode) {
+        return;
+    }
+
+    log.debug('Changing comments order', { from: current, to: mode, url: page.url() });
+
+    await page.click(CSS_SELECTORS.COMMENT_ORDER);
+
+    try {
+        await page.waitForSelector(`[role="menu"] [data-ordering="${mode}"]`, { timeout: 5000 });
+        await page.click(`[role="menu"] [data-ordering="${mode}"]`);
+        await page.waitForSelector(`${CSS_SELECTORS.COMMENT_ORDER.replace('[data-ordering]', `[data-ordering="${mode}"]`)}`, { timeout: 10000 });
+    } catch (e) {
+        log.debug(`Comments order error: ${e.message}`, { url: page.url() });
+    }
+};
+
+/**
+ * Count all loaded comments including replies, and get the oldest
+ * loaded top level comment time
+ */
+const loadedCommentsInfo = (page: Page) => page.evaluate((itemSelector: string) => {
+    const items = [...document.querySelectorAll<HTMLElement>(itemSelector)];
+    const times = items.map((item) => +(item.querySelector<HTMLElement>('abbr[data-utime]')?.dataset.utime ?? 0))
+        .filter((time) => time > 0);
+
+    return {
+        count: items.length,
+        oldest: times.length ? Math.min(...times) * 1000 : null,
+    };
+}, CSS_SELECTORS.COMMENT_ITEM);
+
+/**
+ * Keep only up to `max` comments, counting the replies as well
+ */
+const limitComments = (comments: FbComment[], max: number) => {
+    let remaining = max;
+
+    const limit = (items: FbComment[]): FbComment[] => {
+        const out: FbComment[] = [];
+
+        for (const item of items) {
+            if (remaining <= 0) {
+                break;
+            }
+
+            remaining--;
+
+            out.push({
+                ...item,
+                replies: limit(item.replies),
+            });
+        }
+
+        return out;
+    };
+
+    return limit(comments);
+};
+
+/**
+ * Expands and extracts the comments from the dedicated post page,
+ * including the replies as a nested tree.
+ *
+ * `date` limits the oldest comment to be included. The ordering
+ * only allows to stop early on RECENT_ACTIVITY mode, since the other
+ * modes aren't sorted by date
+ */
+export const getPostComments = async (page: Page, {
+    mode,
+    max,
+    date,
+    language = 'en-US',
+}: {
+    mode: FbCommentsMode;
+    max: number;
+    date: MinMaxDates;
+    language?: string;
+}): Promise<FbPostComments> => {
+    const result: FbPostComments = {
+        count: 0,
+        mode,
+        comments: [],
+    };
+
+    if (!max) {
+        return result;
+    }
+
+    const timer = stopwatch();
+
+    if (!await page.$(CSS_SELECTORS.COMMENTS_CONTAINER)) {
+        // the comments are collapsed, click the comments count link
+        await page.$eval(CSS_SELECTORS.LOAD_COMMENTS, (el) => (el as HTMLElement).click()).catch(() => null);
+
+        try {
+            await page.waitForSelector(CSS_SELECTORS.COMMENTS_CONTAINER, { timeout: 10000 });
+        } catch (e) {
+            log.debug('Post has no comments', { url: page.url() });
+            return result;
+        }
+    }
+
+    await setCommentsOrder(page, mode);
+
+    let tries = 0;
+
+    // expand "view more comments" and "view replies" until reaching the limits
+    while (tries < 50 && !page.isClosed()) {
+        const { count, oldest } = await loadedCommentsInfo(page);
+
+        if (count >= max) {
+            break;
+        }
+
+        if (mode === 'RECENT_ACTIVITY' && oldest && !date.compare(oldest)) {
+            log.debug('Reached the comments date limit', { url: page.url(), oldest });
+            break;
+        }
+
+        const clicked = await page.$$eval(CSS_SELECTORS.LOAD_MORE_COMMENTS, (els) => {
+            els.forEach((el) => (el as HTMLElement).click());
+            return els.length;
+        });
+
+        if (!clicked) {
+            break;
+        }
+
+        await sleep(1500);
+        tries++;
+    }
+
+    // expand long comments
+    await page.$$eval(CSS_SELECTORS.COMMENT_SEE_MORE, (els) => {
+        els.forEach((el) => (el as HTMLElement).click());
+    }).catch(() => null);
+
+    const comments = await page.$eval(CSS_SELECTORS.COMMENTS_CONTAINER, async (container) => {
+        const cleanUrl = (href?: string | null) => {
+            if (!href) {
+                return null;
+            }
+
+            const url = new URL(href, window.location.href);
+
+            ['comment_tracking', '__tn__', '__xts__', 'fref', 'rc', 'hc_location'].forEach((param) => url.searchParams.delete(param));
+
+            return url.toString();
+        };
+
+        const parseList = (ul: Element): any[] => [...ul.querySelectorAll(':scope > li')].map((li) => {
+            const body = li.querySelector<HTMLElement>('[data-testid^="UFI2Comment/root_depth_"]');
+
+            if (!body) {
+                return null;
+            }
+
+            const author = body.querySelector<HTMLAnchorElement>('a[data-hovercard]');
+            const abbr = body.querySelector<HTMLElement>('abbr[data-utime]');
+            const text = body.querySelector<HTMLElement>('[data-testid="UFI2Comment/body"] span[dir]');
+            const reactions = body.querySelector<HTMLElement>('[data-testid="UFI2CommentTopReactions/tooltip"]');
+            const repliesList = li.querySelector(':scope > div > ul');
+            const repliesPager = li.querySelector<HTMLElement>('[data-testid="UFI2CommentsPagerRenderer/pager_depth_1"]');
+            const replies = repliesList ? parseList(repliesList) : [];
+
+            return {
+                name: author?.innerText?.trim() || null,
+                profileUrl: cleanUrl(author?.href),
+                text: text?.innerText?.trim() || null,
+                date: abbr?.dataset.utime ?? null,
+                url: cleanUrl(abbr?.closest('a')?.href),
+                // the counts are parsed outside, they are localized
+                reactionsCount: reactions?.innerText ?? null,
+                repliesCount: repliesPager?.innerText ?? null,
+                replies,
+            };
+        }).filter((s) => s);
+
+        return parseList(container);
+    });
+
+    const convert = (items: any[]): FbComment[] => items
+        .filter((item) => !item.date || date.compare(+item.date * 1000))
+        .map((item) => ({
+            ...item,
+            date: item.date ? convertDate(item.date, true) : null,
+            reactionsCount: parseCount(item.reactionsCount, language) ?? 0,
+            repliesCount: item.replies.length + (parseCount(item.repliesCount, language) ?? 0),
+            replies: convert(item.replies),
+        }));
+
+    result.comments = limitComments(convert(comments), max);
+
+    const countAll = (items: FbComment[]): number => items.reduce((count, item) => count + 1 + countAll(item.replies), 0);
+
+    result.count = countAll(result.comments);
+
+    log.debug(`Got ${result.count} comments in ${timer() / 1000}s`, { url: page.url() });
+
+    return result;
+};
+
+/**
+ * Run the selector, returning `null` when the information isn't available on the page
+ */
+const optionalSelector = async <T>(page: Page, namespace: string, selector: (page: Page) => Promise<T>) => {
+    try {
+        return await selector(page);
+    } catch (e) {
+        if (!(e instanceof InfoError)) {
+            throw e;
+        }
+
+        log.debug(`Missing ${namespace}`, { url: page.url() });
+
+        return null;
+    }
+};
+
+/**
+ * Get the page information from the mobile home page
+ */
+export const getPageHomeInfo = async (page: Page): Promise<Partial<FbPage>> => {
+    const title = await page.$eval(CSS_SELECTORS.PAGE_NAME, (el) => (el as HTMLMetaElement).content)
+        .catch(() => null);
+
+    return {
+        title: title?.trim() ?? '',
+        verified: !!(await optionalSelector(page, 'verified', pageSelectors.verified)),
+        pageId: await getPageId(page),
+        messenger: (await optionalSelector(page, 'messenger', pageSelectors.messenger)) ?? '',
+    };
+};
+
+/**
+ * Get the numeric page id from the app links or the page data
+ */
+export const getPageId = async (page: Page) => {
+    return page.evaluate(async () => {
+        const appLink = ['al:android:url', 'al:ios:url']
+            .map((property) => document.querySelector<HTMLMetaElement>(`meta[property="${property}"]`)?.content ?? '')
+            .map((content) => content.match(/fb:\/\/(?:page|profile)\/(?:\?id=)?(\d+)/)?.[1])
+            .find((id) => id);
+
+        if (appLink) {
+            return appLink;
+        }
+
+        for (const script of document.querySelectorAll('script:not([src])')) {
+            const id = script.innerHTML.match(/"page(?:ID|_id)":"?(\d+)/)?.[1];
+
+            if (id) {
+                return id;
+            }
+        }
+
+        return null;
+    });
+};
+
+/**
+ * Parses the lines of the transparency panel. The labels are matched in
+ * english, the dates are parsed in the page language
+ */
+const parseTransparencyLines = (lines: string[], language: string): FbPageTransparency => {
+    const transparency: FbPageTransparency = {
+        creationDate: null,
+        nameChanges: [],
+        managerCountries: [],
+        isRunningAds: null,
+        confirmedOwner: null,
+    };
+
+    // the value is either after a dash or colon, or on the next line
+    const valueOf = (line: string, index: number, label: RegExp) => {
+        return line.replace(label, '').replace(/^\s*[-–·:]\s*/, '').trim() || lines[index + 1] || null;
+    };
+
+    let inManagers = false;
+
+    for (const [index, line] of lines.entries()) {
+        const created = /^(?:page )?created\b/i;
+        const changed = /^changed name to\s+/i;
+        const owner = /^(?:confirmed page owner|organizations? that manages? this page)\b/i;
+
+        if (created.test(line)) {
+            transparency.creationDate = parseDate(valueOf(line, index, created), language);
+        } else if (changed.test(line)) {
+            const [name, date = lines[index + 1]] = line.replace(changed, '').split(/\s+·\s+/);
+
+            transparency.nameChanges.push({
+                name: name.trim(),
+                date: parseDate(date, language),
+            });
+        } else if (/is currently running ads/i.test(line)) {
+            transparency.isRunningAds = true;
+        } else if (/(?:is not|isn't) currently running ads/i.test(line)) {
+            transparency.isRunningAds = false;
+        } else if (owner.test(line)) {
+            transparency.confirmedOwner = valueOf(line, index, owner);
+        } else if (/people who manage this page/i.test(line)) {
+            inManagers = true;
+        } else if (inManagers) {
+            // like "United States (5)"
+            const country = line.match(/^([^()\d]+?)\s*\((\d+)\)$/);
+
+            if (country) {
+                transparency.managerCountries.push({
+                    country: country[1],
+                    count: +country[2],
+                });
+            } else if (transparency.managerCountries.length) {
+                inManagers = false;
+            }
+        }
+    }
+
+    return transparency;
+};
+
+/**
+ * Get the "Page Transparency" panel from the about page. `fullUrl` is
+ * the link to the full panel, that has all the name changes and countries.
+ * The transparency is null when the Page doesn't have the panel
+ */
+export const getPageTransparency = async (page: Page, language = 'en-US'): Promise<{ transparency: FbPageTransparency | null; fullUrl: string | null }> => {
+    const icon = await page.$(CSS_SELECTORS.PAGE_TRANSPARENCY);
+
+    if (!icon) {
+        log.debug('Missing transparency', { url: page.url() });
+        return { transparency: null, fullUrl: null };
+    }
+
+    const { lines, fullUrl }: { lines: string[]; fullUrl: string | null } = await icon.evaluate(async (el) => {
+        const box = (el as Element).closest<HTMLElement>('div[id]');
+
+        return {
+            lines: box?.innerText.split('\n') ?? [],
+            fullUrl: box?.querySelector<HTMLAnchorElement>('a[href*="transparency"]')?.href ?? null,
+        };
+    });
+
+    return {
+        transparency: parseTransparencyLines(lines.map((line) => line.trim()).filter((line) => line), language),
+        fullUrl,
+    };
+};
+
+/**
+ * Get the full "Page Transparency" panel, from the link on the about page
+ */
+export const getFullPageTransparency = async (page: Page, language = 'en-US'): Promise<FbPageTransparency> => {
+    const lines = await page.evaluate(async () => {
+        return (document.querySelector<HTMLElement>('[role="dialog"], #root, body')?.innerText ?? '').split('\n');
+    });
+
+    return parseTransparencyLines(lines.map((line) => line.trim()).filter((line) => line), language);
+};
+
+/**
+ * Get the fields from the "About" section. Each field is independent from
+ * each other, so missing fields are returned with their empty value
+ */
+export const getFieldInfos = async (page: Page): Promise<Partial<FbPage>> => {
+    const text = async (key: keyof typeof imageSelectors) => {
+        return optionalSelector(page, key, imageSelectors[key]);
+    };
+
+    const first = async (key: keyof typeof imageSelectors) => (await text(key))?.[0] ?? null;
+
+    const list = async (key: keyof typeof imageSelectors) => (await text(key)) ?? [];
+
+    const [ld] = (await optionalSelector(page, 'ld', pageSelectors.ld)) ?? [];
+    const { lat, lng } = (await optionalSelector(page, 'latLng', pageSelectors.latLng)) ?? { lat: null, lng: null };
+    const address = await first('address');
+
+    return {
+        categories: (await list('categories')).flatMap((s) => s.split(/\s*·\s*/)).filter((s) => s),
+        info: await list('info'),
+        impressum: await list('impressum'),
+        awards: await list('awards'),
+        products: await list('products'),
+        mission: await list('mission'),
+        overview: await list('overview'),
+        email: await first('email'),
+        phone: (await first('phone')) ?? ld?.telephone ?? null,
+        website: await first('website'),
+        instagram: await first('instagram'),
+        twitter: await first('twitter'),
+        youtube: await first('youtube'),
+        transit: await first('transit'),
+        payment: await first('payment'),
+        priceRange: (await first('priceRange')) ?? ld?.priceRange ?? '',
+        checkins: (await first('checkins')) ?? '',
+        address: {
+            city: ld?.address?.addressLocality ?? null,
+            region: ld?.address?.addressRegion ?? null,
+            postalCode: ld?.address?.postalCode ?? null,
+            street: ld?.address?.streetAddress ?? address?.split('\n')[0] ?? null,
+            lat,
+            lng,
+        },
+    };
+};
+
+/**
+ * Scrolls the reviews section collecting the reviews until `max` reviews
+ * are found or the reviews get older than the provided date
+ */
+export const getReviews = async (page: Page, {
+    max,
+    date,
+}: {
+    max: number;
+    date: MinMaxDates;
+}): Promise<FbPageReviews> => {
+    const reviews = new Map<string, FbReview>();
+    const average = (await pageSelectors.reviewAverage(page)) ?? 0;
+
+    if (!max) {
+        return {
+            average,
+            count: 0,
+            reviews: [],
+        };
+    }
+
+    const counter = dateRangeItemCounter(date);
+    let unchanged = 0;
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        maybeStop: async ({ bodyChanged, scrollChanged }) => {
+            const found = await pageSelectors.reviews(page);
+
+            counter.empty(!found.length);
+
+            for (const review of found) {
+                if (reviews.size >= max) {
+                    break;
+                }
+
+                // the reviews are kept in the DOM while scrolling
+                const key = review.url ?? `${review.date}${review.text}`;
+
+                if (reviews.has(key)) {
+                    continue; // eslint-disable-line no-continue
+                }
+
+                counter.add(1);
+
+                if (!counter.time(review.date)) {
+                    continue; // eslint-disable-line no-continue
+                }
+
+                reviews.set(key, {
+                    ...review,
+                    canonical: review.url ? storyFbToDesktopPermalink(review.url)?.toString() ?? null : null,
+                });
+            }
+
+            unchanged = (!bodyChanged && !scrollChanged) ? unchanged + 1 : 0;
+
+            // reviews are ordered from newest to oldest
+            return reviews.size >= max
+                || unchanged > 5
+                || counter.stats().min.older > 0
+                || counter.isOver();
+        },
+    });
+
+    return {
+        average,
+        count: reviews.size,
+        reviews: [...reviews.values()],
+    };
+};
+
+/**
+ * Scrolls the search results collecting the page urls, until `max`
+ * pages are found or there are no more results
+ */
+export const getSearchResults = async (page: Page, { max }: { max: number }) => {
+    const urls = new Set<string>();
+
+    if (!max) {
+        return urls;
+    }
+
+    let unchanged = 0;
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        maybeStop: async ({ bodyChanged, scrollChanged }) => {
+            for (const url of (await pageSelectors.searchResults(page)) ?? []) {
+                if (urls.size >= max) {
+                    break;
+                }
+
+                try {
+                    // results may contain groups, events and people
+                    if (getUrlLabel(url) === LABELS.PAGE) {
+                        urls.add(url);
+                    }
+                } catch (e) {
+                    log.debug(`Invalid search result: ${e.message}`, { url });
+                }
+            }
+
+            unchanged = (!bodyChanged && !scrollChanged) ? unchanged + 1 : 0;
+
+            return urls.size >= max || unchanged > 5;
+        },
+    });
+
+    return urls;
+};
+
+/**
+ * Get the businesses from a /biz/ directory page, along with the url
+ * of the next directory page, if any
+ */
+export const getPagesFromListing = async (page: Page) => {
+    const items = new Map<string, FbListingItem>();
+    const listingUrl = page.url();
+    const listingCategory = new URL(listingUrl).pathname.split('/').filter((s) => s)[1] ?? null;
+    let unchanged = 0;
+
+    await scrollUntil(page, {
+        sleepMillis: 1000,
+        maybeStop: async ({ bodyChanged, scrollChanged }) => {
+            for (const item of await pageSelectors.listing(page)) {
+                const pageUrl = normalizeOutputPageUrl(item.pageUrl);
+
+                if (!items.has(pageUrl)) {
+                    items.set(pageUrl, {
+                        ...item,
+                        pageUrl,
+                        listingUrl,
+                        listingCategory,
+                    });
+                }
+            }
+
+            unchanged = (!bodyChanged && !scrollChanged) ? unchanged + 1 : 0;
+
+            return unchanged > 3;
+        },
+    });
+
+    const nextPageUrl = await page.evaluate(() => {
+        const current = new URL(window.location.href);
+        const next = `${+(current.searchParams.get('page') ?? 1) + 1}`;
+
+        return [...document.querySelectorAll<HTMLAnchorElement>('a[href*="/biz/"]')]
+            .map((a) => new URL(a.href))
+            .find((url) => url.pathname === current.pathname && url.searchParams.get('page') === next)
+            ?.toString() ?? null;
+    });
+
+    return {
+        items: [...items.values()],
+        nextPageUrl,
+    };
+};
+
+/**
+ * Get the items from the services section
+ */
+export const getServices = async (page: Page) => {
+    // some services are lazily loaded
+    await scrollUntil(page, {
+        sleepMillis: 500,
+        maybeStop: async ({ count, bodyChanged }) => count > 3 && !bodyChanged,
+    });
+
+    return pageSelectors.services(page);
+};
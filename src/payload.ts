@@ -0,0 +1,1100 @@
+import { BaseError } from 'make-error';
+import get = require('lodash.get');
+import type {
+    FbEvent,
+    FbEventHost,
+    FbGroup,
+    FbImage,
+    FbImageTag,
+    FbPollOption,
+    FbPostLink,
+    FbPostStats,
+    FbPostType,
+    FbPostTypeFields,
+    FbSharedPost,
+    FbVideo,
+    FbVideoRendition,
+} from './definitions';
+
+/**
+ * Thrown when the text isn't a valid literal at the given position
+ */
+class LiteralError extends BaseError {}
+
+const isWhitespace = (char: string) => /\s/.test(char);
+
+const isIdentifierChar = (char: string) => /[\w$]/.test(char);
+
+/**
+ * Safe parser for the JSON and JS object literals that are embedded on
+ * the inline scripts. Supports unquoted keys, single quoted strings and
+ * trailing commas, but never evaluates code: anything that isn't a
+ * literal (function calls, variables, expressions) fails the parsing
+ */
+export const parseLiteral = (text: string, start = 0) => {
+    let pos = start;
+
+    const fail = (message: string): never => {
+        throw new LiteralError(`${message} at ${pos}`);
+    };
+
+    const skipWhitespace = () => {
+        while (pos < text.length && isWhitespace(text[pos])) {
+            pos++;
+        }
+    };
+
+    const parseString = () => {
+        const quote = text[pos++];
+        let out = '';
+
+        while (pos < text.length) {
+            const char = text[pos++];
+
+            if (char === quote) {
+                return out;
+            }
+
+            if (char === '\n') {
+                fail('Unterminated string');
+            }
+
+            if (char !== '\\') {
+                out += char;
+                continue; // eslint-disable-line no-continue
+            }
+
+            const escaped = text[pos++];
+
+            switch (escaped) {
+                case 'n': out += '\n'; break;
+                case 't': out += '\t'; break;
+                case 'r': out += '\r'; break;
+                case 'b': out += '\b'; break;
+                case 'f': out += '\f'; break;
+                case 'v': out += '\v'; break;
+                case '0': out += '\0'; break;
+                case 'u':
+                case 'x': {
+                    const length = escaped === 'u' ? 4 : 2;
+                    const hex = text.slice(pos, pos + length);
+
+                    if (!/^[\da-f]+$/i.test(hex) || hex.length !== length) {
+                        fail('Invalid escape');
+                    }
+
+                    out += String.fromCharCode(parseInt(hex, 16));
+                    pos += length;
+                    break;
+                }
+                default:
+                    out += escaped;
+            }
+        }
+
+        return fail('Unterminated string');
+    };
+
+    const parseIdentifier = () => {
+        const from = pos;
+
+        while (pos < text.length && isIdentifierChar(text[pos])) {
+            pos++;
+        }
+
+        if (from === pos) {
+            fail(`Unexpected "${text[pos]}"`);
+        }
+
+        return text.slice(from, pos);
+    };
+
+    const parseNumber = () => {
+        const matches = text.slice(pos, pos + 40).match(/^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i);
+
+        if (!matches) {
+            return fail('Invalid number');
+        }
+
+        pos += matches[0].length;
+
+        return +matches[0];
+    };
+
+    const parseValue = (): any => {
+        skipWhitespace();
+
+        const char = text[pos];
+
+        if (char === '{') {
+            return parseObject(); // eslint-disable-line @typescript-eslint/no-use-before-define
+        }
+
+        if (char === '[') {
+            return parseArray(); // eslint-disable-line @typescript-eslint/no-use-before-define
+        }
+
+        if (char === '"' || char === '\'') {
+            return parseString();
+        }
+
+        if (char === '-' || char === '.' || /\d/.test(char)) {
+            return parseNumber();
+        }
+
+        const identifier = parseIdentifier();
+
+        switch (identifier) {
+            case 'true': return true;
+            case 'false': return false;
+            case 'null': return null;
+            case 'undefined': return undefined;
+            default:
+                return fail(`Unexpected identifier "${identifier}"`);
+        }
+    };
+
+    const parseArray = () => {
+        const out: any[] = [];
+        pos++;
+
+        while (true) { // eslint-disable-line no-constant-condition
+            skipWhitespace();
+
+            if (text[pos] === ']') {
+                pos++;
+                return out;
+            }
+
+            out.push(parseValue());
+            skipWhitespace();
+
+            if (text[pos] === ',') {
+                pos++;
+            } else if (text[pos] !== ']') {
+                fail('Expected "," or "]"');
+            }
+        }
+    };
+
+    const parseObject = () => {
+        const out: Record<string, any> = {};
+        pos++;
+
+        while (true) { // eslint-disable-line no-constant-condition
+            skipWhitespace();
+
+            if (text[pos] === '}') {
+                pos++;
+                return out;
+            }
+
+            const char = text[pos];
+            let key: string;
+
+            if (char === '"' || char === '\'') {
+                key = parseString();
+            } else if (/\d/.test(char)) {
+                key = `${parseNumber()}`;
+            } else {
+                key = parseIdentifier();
+            }
+
+            skipWhitespace();
+
+            if (text[pos] !== ':') {
+                fail('Expected ":"');
+            }
+
+            pos++;
+            out[key] = parseValue();
+            skipWhitespace();
+
+            if (text[pos] === ',') {
+                pos++;
+            } else if (text[pos] !== '}') {
+                fail('Expected "," or "}"');
+            }
+        }
+    };
+
+    const value = parseValue();
+
+    return {
+        value,
+        end: pos,
+    };
+};
+
+/**
+ * Find all the outermost object literals inside a script text, skipping
+ * everything that can't be parsed as a literal, like function bodies
+ */
+export const findObjectLiterals = (text: string) => {
+    const objects: Array<Record<string, any>> = [];
+    let quote: string | null = null;
+    let pos = 0;
+
+    while (pos < text.length) {
+        const char = text[pos];
+
+        if (quote) {
+            if (char === '\\') {
+                pos++;
+            } else if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '"' || char === '\'' || char === '`') {
+            quote = char;
+        } else if (char === '{') {
+            try {
+                const { value, end } = parseLiteral(text, pos);
+
+                objects.push(value);
+                pos = end;
+                continue; // eslint-disable-line no-continue
+            } catch (e) {
+                if (!(e instanceof LiteralError)) {
+                    throw e;
+                }
+            }
+        }
+
+        pos++;
+    }
+
+    return objects;
+};
+
+/**
+ * Visit every object and array in the tree
+ */
+export const walk = (value: any, cb: (node: Record<string, any>) => void, seen = new Set<any>()) => {
+    if (!value || typeof value !== 'object' || seen.has(value)) {
+        return;
+    }
+
+    seen.add(value);
+
+    if (!Array.isArray(value)) {
+        cb(value);
+    }
+
+    for (const child of Object.values(value)) {
+        walk(child, cb, seen);
+    }
+};
+
+/**
+ * The GraphQL type of the node, like "Photo" or "Event"
+ */
+const typeName = (node: Record<string, any>): string | undefined => node.__typename; // eslint-disable-line no-underscore-dangle
+
+const normalizeUrl = (url: string) => url.replace(/\/+(\?|$)/, '$1');
+
+/**
+ * The url is the target or one of its variants with a query string,
+ * "/posts/1234" isn't a variant of "/posts/123"
+ */
+const isSameUrl = (url: string, target: string) => {
+    const normalized = normalizeUrl(url);
+
+    return normalized.startsWith(target) && /^(?:[/?#]|$)/.test(normalized.slice(target.length));
+};
+
+/**
+ * Check if the node itself, not its children, has the post url or id
+ */
+const isPostNode = (node: Record<string, any>, { url, postId }: { url?: string | null; postId?: string | null }) => {
+    const target = url ? normalizeUrl(url) : null;
+
+    return Object.entries(node).some(([key, value]) => {
+        if (typeof value !== 'string') {
+            return false;
+        }
+
+        return (target && /url$/i.test(key) && isSameUrl(value, target))
+            || (postId && ['post_id', 'story_fbid', 'top_level_post_id', 'subscription_target_id'].includes(key) && value === postId);
+    });
+};
+
+/**
+ * Check if the tree references the post, either by url or post id
+ */
+const referencesPost = (tree: any, post: { url?: string | null; postId?: string | null }) => {
+    let found = false;
+
+    walk(tree, (node) => {
+        found = found || isPostNode(node, post);
+    });
+
+    return found;
+};
+
+/**
+ * Field paths for each of the stats, the first one that exists on a node wins
+ */
+const STATS_FIELDS: Record<'comments' | 'reactions' | 'shares' | 'views', string[][]> = {
+    comments: [['comment_count', 'total_count'], ['comments', 'total_count'], ['total_comment_count']],
+    reactions: [['reaction_count', 'count'], ['reactors', 'count']],
+    shares: [['share_count', 'count'], ['reshares', 'count']],
+    views: [['video_view_count'], ['play_count'], ['post_view_count']],
+};
+
+/**
+ * Fields that are expected on every post. Views only exist on videos
+ */
+const REQUIRED_FIELDS = ['comments', 'reactions', 'shares'];
+
+/**
+ * Extract the post stats from the scripts contents. The counts are read
+ * from the feedback of the story that has the post url or id, the closest
+ * one to the story wins, as the comments have their own feedback. The shared
+ * post is skipped, it has the counts of the original post.
+ *
+ * `missing` contains the required fields that couldn't be found, which
+ * are kept as `null` instead of zero
+ */
+export const getPostStatsFromScripts = (trees: Array<Record<string, any>>, post: { url?: string | null; postId?: string | null }) => {
+    const stats: FbPostStats = {
+        comments: null,
+        reactions: null,
+        shares: null,
+        views: null,
+        reactionsBreakdown: {},
+    };
+
+    let hasBreakdown = false;
+
+    const readNode = (node: Record<string, any>) => {
+        for (const [field, paths] of Object.entries(STATS_FIELDS)) {
+            const key = field as keyof typeof STATS_FIELDS;
+            const path = paths.find((p) => typeof get(node, p) === 'number');
+
+            if (path && stats[key] === null) {
+                stats[key] = get(node, path);
+            }
+        }
+
+        const edges = get(node, ['top_reactions', 'edges']);
+
+        if (!hasBreakdown && Array.isArray(edges)) {
+            hasBreakdown = true;
+
+            for (const edge of edges) {
+                const type = `${get(edge, ['node', 'reaction_type'], '')}`.toLowerCase();
+                const count = get(edge, ['reaction_count']);
+
+                if (type && typeof count === 'number') {
+                    stats.reactionsBreakdown[type] = count;
+                }
+            }
+        }
+    };
+
+    // breadth first, so the story feedback comes before the comments
+    const readStory = (story: Record<string, any>) => {
+        const queue: any[] = [story];
+        const seen = new Set<any>();
+
+        while (queue.length) {
+            const node = queue.shift();
+
+            if (!node || typeof node !== 'object' || seen.has(node)) {
+                continue; // eslint-disable-line no-continue
+            }
+
+            seen.add(node);
+
+            if (!Array.isArray(node)) {
+                readNode(node);
+            }
+
+            for (const [key, child] of Object.entries(node)) {
+                if (key !== 'attached_story') {
+                    queue.push(child);
+                }
+            }
+        }
+    };
+
+    for (const tree of trees) {
+        const seen = new Set<any>();
+
+        walk(tree, (node) => {
+            if (node.attached_story && typeof node.attached_story === 'object') {
+                seen.add(node.attached_story);
+            }
+
+            if (isPostNode(node, post)) {
+                readStory(node);
+            }
+        }, seen);
+    }
+
+    return {
+        stats,
+        missing: REQUIRED_FIELDS.filter((field) => stats[field as keyof typeof STATS_FIELDS] === null),
+    };
+};
+
+/**
+ * Parse the renditions from a DASH manifest XML
+ */
+export const parseDashManifest = (xml: string): FbVideoRendition[] => {
+    const attribute = (tag: string, name: string) => tag.match(new RegExp(`\\s${name}="([^"]*)"`))?.[1] ?? null;
+    const decode = (value: string) => value.replace(/&amp;/g, '&').replace(/&quot;/g, '"').replace(/&lt;/g, '<').replace(/&gt;/g, '>');
+
+    return [...xml.matchAll(/<Representation\b([^>]*)>([\s\S]*?)<\/Representation>/g)].map(([, tag, body]) => {
+        const url = body.match(/<BaseURL>([^<]+)<\/BaseURL>/)?.[1];
+
+        if (!url) {
+            return null;
+        }
+
+        const width = attribute(tag, 'width');
+        const height = attribute(tag, 'height');
+        const bandwidth = attribute(tag, 'bandwidth');
+
+        return {
+            url: decode(url.trim()),
+            quality: attribute(tag, 'FBQualityLabel') ?? attribute(tag, 'id'),
+            width: width ? +width : null,
+            height: height ? +height : null,
+            bitrate: bandwidth ? +bandwidth : null,
+            mimeType: attribute(tag, 'mimeType'),
+        };
+    }).filter((s): s is FbVideoRendition => !!s);
+};
+
+/**
+ * Get the first path that has a value on the node
+ */
+const first = (node: any, paths: string[][]) => {
+    for (const path of paths) {
+        const value = get(node, path);
+
+        if (value !== undefined && value !== null && value !== '') {
+            return value;
+        }
+    }
+
+    return null;
+};
+
+const VIDEO_SOURCES = {
+    sd: [['sd_src'], ['sd_src_no_ratelimit'], ['playable_url'], ['browser_native_sd_url']],
+    hd: [['hd_src'], ['hd_src_no_ratelimit'], ['playable_url_quality_hd'], ['browser_native_hd_url']],
+};
+
+/**
+ * Extract the video metadata from the scripts contents. Uses the nodes
+ * that contain the video sources, matching the `videoId` when provided
+ */
+export const getVideoDataFromScripts = (scripts: string[], videoId?: string | null) => {
+    const video: Omit<FbVideo, 'postUrl' | 'videoUrl'> = {
+        videoId: videoId ?? null,
+        renditions: [],
+        dashManifestUrl: null,
+        duration: null,
+        thumbnailUrl: null,
+        viewCount: null,
+        title: null,
+        description: null,
+        isLive: false,
+        isReel: false,
+    };
+
+    const renditions = new Map<string, FbVideoRendition>();
+
+    const addRendition = (rendition: FbVideoRendition) => {
+        const current = renditions.get(rendition.url);
+
+        renditions.set(rendition.url, {
+            url: rendition.url,
+            quality: current?.quality ?? rendition.quality,
+            width: current?.width ?? rendition.width,
+            height: current?.height ?? rendition.height,
+            bitrate: current?.bitrate ?? rendition.bitrate,
+            mimeType: current?.mimeType ?? rendition.mimeType,
+        });
+    };
+
+    for (const script of scripts) {
+        for (const tree of findObjectLiterals(script)) {
+            walk(tree, (node) => {
+                const nodeId = `${first(node, [['video_id'], ['videoID'], ['id']]) ?? ''}`;
+                const hasSources = [...VIDEO_SOURCES.sd, ...VIDEO_SOURCES.hd, ['dash_manifest'], ['dash_manifest_url']]
+                    .some((path) => typeof get(node, path) === 'string');
+
+                if (!hasSources || (videoId && nodeId && nodeId !== videoId)) {
+                    return;
+                }
+
+                video.videoId = video.videoId ?? (nodeId || null);
+
+                const width = first(node, [['original_width'], ['width']]);
+                const height = first(node, [['original_height'], ['height']]);
+
+                for (const [quality, paths] of Object.entries(VIDEO_SOURCES)) {
+                    const url = first(node, paths);
+
+                    if (typeof url === 'string') {
+                        addRendition({
+                            url,
+                            quality,
+                            // the original dimensions are only for the best quality
+                            width: quality === 'hd' && typeof width === 'number' ? width : null,
+                            height: quality === 'hd' && typeof height === 'number' ? height : null,
+                            bitrate: null,
+                            mimeType: 'video/mp4',
+                        });
+                    }
+                }
+
+                const manifest = first(node, [['dash_manifest']]);
+
+                if (typeof manifest === 'string') {
+                    parseDashManifest(manifest).forEach(addRendition);
+                }
+
+                const durationMs = first(node, [['playable_duration_in_ms']]);
+                const duration = durationMs !== null ? durationMs / 1000 : first(node, [['length_in_second'], ['playable_duration'], ['duration']]);
+
+                video.dashManifestUrl = video.dashManifestUrl ?? first(node, [['dash_manifest_url']]);
+                video.duration = video.duration ?? (typeof duration === 'number' ? duration : null);
+                video.thumbnailUrl = video.thumbnailUrl ?? first(node, [['thumbnail_src'], ['preferred_thumbnail', 'image', 'uri'], ['thumbnailImage', 'uri'], ['first_frame_thumbnail']]);
+                video.viewCount = video.viewCount ?? first(node, [['video_view_count'], ['play_count'], ['view_count']]);
+                video.title = video.title ?? first(node, [['title', 'text'], ['video_title']]);
+                video.description = video.description ?? first(node, [['savable_description', 'text'], ['description', 'text']]);
+                video.isLive = video.isLive || !!first(node, [['is_live_stream'], ['is_live_streaming']]) || get(node, ['broadcast_status']) === 'LIVE';
+                video.isReel = video.isReel || !!first(node, [['is_clips_video'], ['is_reel']]) || /\/reel\//.test(`${first(node, [['permalink_url'], ['url']]) ?? ''}`);
+            });
+        }
+    }
+
+    video.renditions = [...renditions.values()];
+
+    return video;
+};
+
+/**
+ * The link attachment with its Open Graph preview. The url
+ * is kept as-is, the links module normalizes it
+ */
+const linkFromNode = (node: Record<string, any>): FbPostLink | null => {
+    const url = first(node, [['web_link', 'url'], ['story_attachment_link_renderer', 'attachment', 'web_link', 'url'], ['target', 'external_url']]);
+
+    if (typeof url !== 'string') {
+        return null;
+    }
+
+    const description = first(node, [['description', 'text']]);
+
+    return {
+        url,
+        thumbUrl: first(node, [['media', 'image', 'uri'], ['media', 'large_share_image', 'uri']]),
+        domain: first(node, [['source', 'text']]),
+        title: first(node, [['title_with_entities', 'text'], ['title', 'text']]),
+        text: description,
+        description,
+    };
+};
+
+/**
+ * Find the first value of the paths in the whole tree
+ */
+const deepFirst = (tree: any, paths: string[][]) => {
+    let found: any = first(tree, paths);
+
+    if (found === null) {
+        walk(tree, (node) => {
+            found = found ?? first(node, paths);
+        });
+    }
+
+    return found;
+};
+
+/**
+ * Extract the original post from the `attached_story` of the post
+ * that shared it. Returns null if the post isn't a share
+ */
+export const getSharedPostFromScripts = (trees: Array<Record<string, any>>, post: { url?: string | null; postId?: string | null }): FbSharedPost | null => {
+    for (const tree of trees) {
+        if (!referencesPost(tree, post)) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        // assigned inside the callback, TS can't follow it
+        let story = null as Record<string, any> | null;
+
+        walk(tree, (node) => {
+            const attached = get(node, ['attached_story']);
+
+            if (!story && attached && typeof attached === 'object') {
+                story = attached;
+            }
+        });
+
+        if (!story) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        const postImages: FbImage[] = [];
+        const postLinks: FbPostLink[] = [];
+
+        walk(story, (node) => {
+            const imageUrl = first(node, [['photo_image', 'uri'], ['image', 'uri']]);
+
+            if (typeName(node) === 'Photo' && typeof imageUrl === 'string' && !postImages.some((image) => image.imageUrl === imageUrl)) {
+                postImages.push({
+                    link: first(node, [['url'], ['permalink_url']]) ?? '',
+                    imageUrl,
+                });
+            }
+
+            const link = linkFromNode(node);
+
+            if (link && !postLinks.some(({ url }) => url === link.url)) {
+                postLinks.push(link);
+            }
+        });
+
+        const creationTime = deepFirst(story, [['creation_time'], ['publish_time']]);
+
+        return {
+            authorName: deepFirst(story, [['actors', '0', 'name'], ['owner', 'name']]),
+            authorUrl: deepFirst(story, [['actors', '0', 'url'], ['actors', '0', 'profile_url'], ['owner', 'url']]),
+            postId: first(story, [['post_id'], ['legacy_story_id']]),
+            postUrl: first(story, [['url'], ['wwwURL'], ['permalink_url']]),
+            postDate: typeof creationTime === 'number' ? new Date(creationTime * 1000).toISOString() : null,
+            postText: deepFirst(story, [['message', 'text']]),
+            postImages,
+            postLinks,
+        };
+    }
+
+    return null;
+};
+
+/**
+ * The more specific types win, a poll or event can also have a photo
+ */
+const POST_TYPE_PRIORITY: FbPostType[] = [
+    'poll',
+    'event',
+    'lifeEvent',
+    'coverPhoto',
+    'profilePicture',
+    'checkin',
+    'album',
+    'reel',
+    'video',
+    'photo',
+    'link',
+];
+
+const toIsoDate = (seconds: any) => (typeof seconds === 'number' && seconds > 0 ? new Date(seconds * 1000).toISOString() : null);
+
+/**
+ * Detect the post type from the story data, with the fields that are
+ * specific to the type. The shared post is ignored, as it has its own type.
+ *
+ * Returns null if the story couldn't be found
+ */
+export const getPostTypeFromScripts = (trees: Array<Record<string, any>>, post: { url?: string | null; postId?: string | null }): FbPostTypeFields | null => {
+    const types = new Set<FbPostType>();
+    const fields: Omit<FbPostTypeFields, 'postType'> = {};
+    let found = false;
+
+    for (const tree of trees) {
+        if (!referencesPost(tree, post)) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        found = true;
+
+        // marking as seen skips the shared post on the next walk
+        const seen = new Set<any>();
+        walk(tree, (node) => {
+            if (node.attached_story && typeof node.attached_story === 'object') {
+                seen.add(node.attached_story);
+            }
+        });
+
+        walk(tree, (node) => {
+            const styles: string[] = Array.isArray(node.style_list) ? node.style_list : [];
+
+            if (typeName(node) === 'Question' || typeName(node) === 'Poll' || styles.includes('question') || styles.includes('poll')) {
+                const options = first(node, [['options', 'nodes'], ['options', 'edges'], ['poll', 'options', 'nodes'], ['poll', 'options', 'edges']]);
+
+                types.add('poll');
+
+                if (Array.isArray(options)) {
+                    fields.pollOptions = options.map((option): FbPollOption | null => {
+                        const item = option?.node ?? option;
+                        const text = first(item, [['text'], ['text_with_entities', 'text'], ['title', 'text']]);
+
+                        if (typeof text !== 'string') {
+                            return null;
+                        }
+
+                        const votes = first(item, [['voters', 'count'], ['vote_count'], ['total_voters']]);
+
+                        return {
+                            text,
+                            votes: typeof votes === 'number' ? votes : null,
+                        };
+                    }).filter((option): option is FbPollOption => !!option);
+                }
+            }
+
+            if ((typeName(node) === 'Event' && node.name) || styles.includes('event')) {
+                types.add('event');
+
+                if (typeName(node) === 'Event') {
+                    fields.event = {
+                        name: node.name ?? null,
+                        url: first(node, [['url'], ['event_url']]),
+                        startDate: toIsoDate(first(node, [['start_timestamp'], ['start_time']])),
+                        location: first(node, [['event_place', 'contextual_name'], ['event_place', 'name'], ['location', 'name']]),
+                    };
+                }
+            }
+
+            if (typeName(node) === 'LifeEvent' || styles.includes('life_event')) {
+                types.add('lifeEvent');
+
+                fields.lifeEvent = {
+                    title: first(node, [['title', 'text'], ['life_event_title'], ['title_with_entities', 'text']]) ?? fields.lifeEvent?.title ?? null,
+                    date: toIsoDate(first(node, [['life_event_time'], ['start_timestamp']])) ?? fields.lifeEvent?.date ?? null,
+                };
+            }
+
+            if (styles.includes('cover_photo')) {
+                types.add('coverPhoto');
+            }
+
+            if (styles.includes('profile_media') || styles.includes('profile_picture')) {
+                types.add('profilePicture');
+            }
+
+            const place = first(node, [['explicit_place'], ['implicit_place'], ['tagged_place']]);
+
+            if (place && typeof place === 'object' && (place.name || place.id)) {
+                types.add('checkin');
+
+                fields.place = {
+                    id: place.id ? `${place.id}` : null,
+                    name: place.name ?? null,
+                    url: place.url ?? null,
+                };
+            }
+
+            const subattachments = first(node, [['all_subattachments', 'count']]);
+
+            if (typeName(node) === 'Album' || styles.includes('album') || (typeof subattachments === 'number' && subattachments > 1)) {
+                types.add('album');
+
+                fields.album = {
+                    name: first(node, [['title', 'text'], ['name']]) ?? fields.album?.name ?? null,
+                    url: (typeName(node) === 'Album' ? first(node, [['url']]) : null) ?? fields.album?.url ?? null,
+                    photoCount: first(node, [['media', 'count'], ['photo_count'], ['all_subattachments', 'count']]) ?? fields.album?.photoCount ?? null,
+                };
+            }
+
+            if (node.is_clips_video === true || node.is_reel === true || styles.includes('reel')) {
+                types.add('reel');
+            }
+
+            if (typeName(node) === 'Video' || styles.includes('video') || styles.includes('video_inline')) {
+                types.add('video');
+            }
+
+            if (typeName(node) === 'Photo' || styles.includes('photo')) {
+                types.add('photo');
+            }
+
+            if (first(node, [['web_link', 'url']]) || styles.includes('share')) {
+                types.add('link');
+            }
+        }, seen);
+    }
+
+    if (!found) {
+        return null;
+    }
+
+    return {
+        postType: POST_TYPE_PRIORITY.find((type) => types.has(type)) ?? 'status',
+        ...fields,
+    };
+};
+
+/**
+ * The biggest image of a photo node
+ */
+const largestImage = (node: Record<string, any>) => {
+    const images = ['image', 'photo_image', 'viewer_image', 'large_image', 'full_image', 'photo_image_full']
+        .map((key) => node[key])
+        .filter((image) => image && typeof image.uri === 'string')
+        .sort((a, b) => (b.width ?? 0) - (a.width ?? 0));
+
+    return images[0] ?? null;
+};
+
+/**
+ * The people and Pages tagged on the photo, the shape
+ * changes between `tags.edges[].node.tag` and `tags.nodes[]`
+ */
+const photoTags = (node: Record<string, any>): FbImageTag[] => {
+    const entries: any[] = first(node, [['tags', 'edges'], ['tags', 'nodes'], ['photo_tags', 'edges'], ['photo_tags', 'nodes']]) ?? [];
+    const tags = new Map<string, FbImageTag>();
+
+    for (const entry of Array.isArray(entries) ? entries : []) {
+        const tag = first(entry, [['node', 'tag'], ['node', 'subject'], ['tag'], ['node']]) ?? entry;
+        const name = first(tag, [['name'], ['text']]);
+        const url = first(tag, [['url'], ['profile_url'], ['link']]);
+
+        if (name || url) {
+            tags.set(`${url ?? name}`, { name: name ?? null, url: url ?? null });
+        }
+    }
+
+    return [...tags.values()];
+};
+
+const photoFromNode = (node: Record<string, any>): FbImage | null => {
+    const image = largestImage(node);
+
+    if (typeName(node) !== 'Photo' || !node.id || !image) {
+        return null;
+    }
+
+    return {
+        link: first(node, [['url'], ['permalink_url']]) ?? '',
+        imageUrl: image.uri,
+        photoId: `${node.id}`,
+        caption: first(node, [['message', 'text']]),
+        width: typeof image.width === 'number' ? image.width : null,
+        height: typeof image.height === 'number' ? image.height : null,
+        altText: first(node, [['accessibility_caption'], ['accessibility_caption_text']]),
+        tags: photoTags(node),
+    };
+};
+
+/**
+ * Get all the photos of the post, including the ones that aren't
+ * rendered, like on the "+8" tile. The shared post photos are ignored
+ */
+export const getPhotosFromScripts = (trees: Array<Record<string, any>>, post: { url?: string | null; postId?: string | null }) => {
+    const photos = new Map<string, FbImage>();
+
+    for (const tree of trees) {
+        if (!referencesPost(tree, post)) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        const seen = new Set<any>();
+        walk(tree, (node) => {
+            if (node.attached_story && typeof node.attached_story === 'object') {
+                seen.add(node.attached_story);
+            }
+        });
+
+        walk(tree, (node) => {
+            const photo = photoFromNode(node);
+
+            if (photo?.photoId && (!photos.has(photo.photoId) || (photos.get(photo.photoId)!.width ?? 0) < (photo.width ?? 0))) {
+                photos.set(photo.photoId, photo);
+            }
+        }, seen);
+    }
+
+    return [...photos.values()];
+};
+
+/**
+ * Get the link previews attached to the post, with the Open Graph
+ * title, description and image. The shared post links are ignored
+ */
+export const getLinkPreviewsFromScripts = (trees: Array<Record<string, any>>, post: { url?: string | null; postId?: string | null }) => {
+    const links: FbPostLink[] = [];
+
+    for (const tree of trees) {
+        if (!referencesPost(tree, post)) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        const seen = new Set<any>();
+        walk(tree, (node) => {
+            if (node.attached_story && typeof node.attached_story === 'object') {
+                seen.add(node.attached_story);
+            }
+        });
+
+        walk(tree, (node) => {
+            const link = linkFromNode(node);
+
+            if (link && !links.some(({ url }) => url === link.url)) {
+                links.push(link);
+            }
+        }, seen);
+    }
+
+    return links;
+};
+
+/**
+ * Get the group and the member that posted from the group post data.
+ * `groupId` can be the numeric id or the vanity name from the url
+ */
+export const getGroupPostFromScripts = (trees: Array<Record<string, any>>, post: { url?: string | null; postId?: string | null }, groupId: string) => {
+    let group = null as FbGroup | null;
+    let author = null as { name: string | null; url: string | null } | null;
+    // other groups can appear, like in the suggestions
+    let isGroupMatched = false;
+
+    const isSameGroup = (node: Record<string, any>) => `${node.id}` === groupId
+        || node.vanity === groupId
+        || (typeof node.url === 'string' && node.url.includes(`/groups/${groupId}`));
+
+    const visit = (node: Record<string, any>) => {
+        if (typeName(node) === 'Group' && node.id && (!group || (!isGroupMatched && isSameGroup(node)))) {
+            isGroupMatched = isSameGroup(node);
+            group = {
+                groupId: `${node.id}`,
+                name: first(node, [['name']]),
+                url: first(node, [['url']]) ?? `https://www.facebook.com/groups/${node.id}/`,
+            };
+        }
+
+        const actor = first(node, [['actors', '0']]);
+        // comments have actors too, the post one is the first or the one with the id
+        const isPost = post.postId && [node.post_id, node.legacy_story_id].includes(post.postId);
+
+        if (actor && (!author || isPost)) {
+            author = {
+                name: first(actor, [['name']]),
+                url: first(actor, [['url'], ['profile_url']]),
+            };
+        }
+    };
+
+    for (const tree of trees) {
+        if (referencesPost(tree, post)) {
+            walk(tree, visit);
+        }
+    }
+
+    return {
+        group: group as FbGroup | null,
+        author: author as { name: string | null; url: string | null } | null,
+    };
+};
+
+/**
+ * Get the event information from the event page data. The same event
+ * appears several times with different fields, they are merged
+ */
+export const getEventFromScripts = (scripts: string[], eventId: string) => {
+    const event: Partial<FbEvent> = {};
+    const hosts = new Map<string, FbEventHost>();
+
+    const fill = <K extends keyof FbEvent>(key: K, value: FbEvent[K] | null | undefined) => {
+        if (event[key] === undefined || event[key] === null) {
+            event[key] = value ?? null as any;
+        }
+    };
+
+    const toNumber = (value: any) => (value === null || value === undefined || Number.isNaN(+value) ? null : +value);
+
+    for (const script of scripts) {
+        if (!script.includes(eventId)) {
+            continue; // eslint-disable-line no-continue
+        }
+
+        for (const tree of findObjectLiterals(script)) {
+            walk(tree, (node) => {
+                if (`${node.id}` !== eventId || (typeName(node) && typeName(node) !== 'Event')) {
+                    return;
+                }
+
+                fill('name', first(node, [['name']]));
+                fill('startDate', toIsoDate(first(node, [['start_timestamp'], ['startTimestamp']])));
+                fill('endDate', toIsoDate(first(node, [['end_timestamp'], ['endTimestamp']])));
+                fill('timezone', first(node, [['timezone'], ['tz_display_name']]));
+                fill('locationName', first(node, [['event_place', 'name'], ['place', 'name']]));
+                fill('address', first(node, [
+                    ['event_place', 'address', 'street'],
+                    ['event_place', 'contextual_name'],
+                    ['event_place', 'location', 'reverse_geocode', 'city'],
+                ]));
+                fill('latitude', toNumber(first(node, [['event_place', 'location', 'latitude'], ['place', 'location', 'latitude']])));
+                fill('longitude', toNumber(first(node, [['event_place', 'location', 'longitude'], ['place', 'location', 'longitude']])));
+                fill('description', first(node, [['event_description', 'text'], ['description', 'text'], ['description']]));
+                fill('ticketUrl', first(node, [['event_buy_ticket_url'], ['ticket_url'], ['ticketing_uri']]));
+                fill('coverImageUrl', first(node, [
+                    ['cover_media_renderer', 'cover_photo', 'photo', 'full_image', 'uri'],
+                    ['cover_media_renderer', 'cover_photo', 'photo', 'image', 'uri'],
+                    ['cover_photo', 'photo', 'image', 'uri'],
+                ]));
+                fill('goingCount', toNumber(first(node, [['event_connected_users_going', 'count'], ['going_count'], ['event_members', 'count']])));
+                fill('interestedCount', toNumber(first(node, [['event_connected_users_interested', 'count'], ['interested_count'], ['event_watchers', 'count']])));
+
+                const nodeHosts = first(node, [['event_hosts_that_can_view_guestlist'], ['hosts'], ['event_creator']]);
+
+                for (const host of [nodeHosts ?? []].flat()) {
+                    const name = first(host, [['name']]);
+                    const url = first(host, [['url'], ['profile_url']]);
+
+                    if (name || url) {
+                        hosts.set(`${url ?? name}`, { name, url });
+                    }
+                }
+            });
+        }
+    }
+
+    return {
+        ...event,
+        hosts: [...hosts.values()],
+    };
+};
+
+/**
+ * Get the photo from the photo viewer page data
+ */
+export const getPhotoFromScripts = (trees: Array<Record<string, any>>, photoId: string) => {
+    let photo: FbImage | null = null;
+    let date: string | null = null;
+
+    const visit = (node: Record<string, any>) => {
+        if (`${node.id}` !== photoId) {
+            return;
+        }
+
+        const current = photoFromNode(node);
+
+        if (current && (!photo || (photo.width ?? 0) < (current.width ?? 0))) {
+            photo = {
+                ...current,
+                caption: current.caption ?? photo?.caption ?? null,
+                altText: current.altText ?? photo?.altText ?? null,
+                tags: current.tags?.length ? current.tags : photo?.tags ?? [],
+            };
+        }
+
+        date = date ?? toIsoDate(first(node, [['created_time'], ['creation_time']]));
+    };
+
+    for (const tree of trees) {
+        walk(tree, visit);
+    }
+
+    return {
+        photo: photo as FbImage | null,
+        date: date as string | null,
+    };
+};
@@ -1,6 +1,6 @@
 import Apify from 'apify';
 import { AsyncMap } from 'async-atomic-store';
-import type { FbPost } from './definitions';
+import type { FbPage } from './definitions';
 
 const { log } = Apify.utils;
 
@@ -9,7 +9,6 @@ export const emptyState = (): FbPage => ({
     info: [],
     likes: 0,
     messenger: '',
-    posts: [],
     priceRange: '',
     title: '',
     pageUrl: '',
@@ -37,6 +36,7 @@ export const emptyState = (): FbPage => ({
     checkins: '',
     '#startedAt': new Date().toISOString(),
     verified: false,
+    pageId: null,
 });
 
 /**
@@ -48,19 +48,19 @@ export const emptyState = (): FbPage => ({
  * written asynchronously from many sources, while dealing
  * with racing conditions
  */
-export const statePersistor = async () => {
+export const statePersistor = async <T>(key = 'STATE') => {
     const kv = await Apify.openKeyValueStore();
 
-    const state = new Map<string, Partial<FbPost>>(
-        await kv.getValue('STATE') as any,
+    const state = new Map<string, Partial<T>>(
+        await kv.getValue(key) as any,
     );
 
     const map = AsyncMap(state);
 
     const persistState = async () => {
-        log.info('Persisting to STATE.json...');
+        log.info(`Persisting to ${key}.json...`);
 
-        await kv.setValue('STATE', [...state]);
+        await kv.setValue(key, [...state]);
     };
 
     Apify.events.on('persistState', persistState);
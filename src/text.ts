@@ -0,0 +1,188 @@
+import { DESKTOP_ADDRESS } from './constants';
+import type { FbInlineLink, FbMention, FbRichText, FbTextSegment } from './definitions';
+import { canonicalizeUrl, parseUrl } from './links';
+import { isFacebookHost } from './urls';
+
+/**
+ * Segment as it's read from the DOM, before the urls are cleaned
+ */
+export interface RawTextSegment {
+    type: 'text' | 'anchor';
+    text: string;
+    href?: string | null;
+    /**
+     * The data-hovercard attribute, only present on profiles and Pages
+     */
+    hovercard?: string | null;
+}
+
+const EMOJI_PATTERN = /(\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic})*|[\u{1F1E6}-\u{1F1FF}]{2})/u;
+
+/**
+ * Keeps only the part of the profile url that identifies it,
+ * "profile.php?id=" or the vanity path
+ */
+export const cleanProfileUrl = (url: string) => {
+    const parsed = parseUrl(canonicalizeUrl(url), DESKTOP_ADDRESS);
+
+    if (!parsed) {
+        return url;
+    }
+
+    const id = parsed.searchParams.get('id');
+    // everything else is tracking, like "eid", "fref" or "__tn__"
+    parsed.search = '';
+
+    if (parsed.pathname === '/profile.php' && id) {
+        parsed.searchParams.set('id', id);
+    }
+
+    return parsed.toString();
+};
+
+/**
+ * The hovercard looks like "/ajax/hovercard/user.php?id=4&extragetparams=..."
+ */
+const getHovercardId = (hovercard: string | null | undefined) => {
+    return hovercard?.match(/[?&]id=(\d+)/)?.[1] ?? null;
+};
+
+/**
+ * Splits the text on the emojis, so they get their own segments
+ */
+const splitEmoji = (text: string): FbTextSegment[] => {
+    return text.split(EMOJI_PATTERN)
+        .map((part, index): FbTextSegment => ({
+            // the captured emojis are always on odd indexes
+            type: index % 2 ? 'emoji' : 'text',
+            text: part,
+        }))
+        .filter((segment) => segment.text);
+};
+
+const toSegment = (raw: RawTextSegment): FbTextSegment[] => {
+    if (raw.type === 'text' || !raw.href) {
+        return splitEmoji(raw.text);
+    }
+
+    const parsed = parseUrl(raw.href, DESKTOP_ADDRESS);
+
+    if (parsed && isFacebookHost(parsed.hostname) && parsed.pathname.startsWith('/hashtag/')) {
+        return [{
+            type: 'hashtag',
+            text: raw.text,
+            url: cleanProfileUrl(raw.href),
+        }];
+    }
+
+    if (raw.hovercard) {
+        return [{
+            type: 'mention',
+            text: raw.text,
+            url: cleanProfileUrl(raw.href),
+            id: getHovercardId(raw.hovercard),
+        }];
+    }
+
+    return [{
+        type: 'link',
+        text: raw.text,
+        url: canonicalizeUrl(raw.href),
+    }];
+};
+
+/**
+ * Joins the consecutive text segments and trims the whitespace
+ * around the whole text
+ */
+const normalizeSegments = (segments: FbTextSegment[]) => {
+    const normalized: FbTextSegment[] = [];
+
+    for (const segment of segments) {
+        const last = normalized[normalized.length - 1];
+
+        if (last?.type === 'text' && segment.type === 'text') {
+            last.text += segment.text;
+        } else {
+            normalized.push({ ...segment });
+        }
+    }
+
+    if (normalized[0]?.type === 'text') {
+        normalized[0].text = normalized[0].text.trimStart();
+    }
+
+    if (normalized[normalized.length - 1]?.type === 'text') {
+        normalized[normalized.length - 1].text = normalized[normalized.length - 1].text.trimEnd();
+    }
+
+    return normalized.filter((segment) => segment.text);
+};
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1');
+
+export const segmentsToHtml = (segments: FbTextSegment[]) => segments.map((segment) => {
+    const text = escapeHtml(segment.text).replace(/\n/g, '<br>');
+
+    return segment.url ? `<a href="${escapeHtml(segment.url)}">${text}</a>` : text;
+}).join('');
+
+export const segmentsToMarkdown = (segments: FbTextSegment[]) => segments.map((segment) => {
+    // hard line breaks
+    const text = escapeMarkdown(segment.text).replace(/\n/g, '  \n');
+
+    return segment.url ? `[${text}](<${segment.url}>)` : text;
+}).join('');
+
+/**
+ * Turns the segments read from the post text into the structured
+ * fields. The html and markdown renderings are optional as they
+ * repeat the text
+ */
+export const toRichText = (raw: RawTextSegment[], { render = false } = {}): FbRichText => {
+    const textSegments = normalizeSegments(raw.flatMap(toSegment));
+
+    const mentions = new Map<string, FbMention>();
+    const hashtags = new Map<string, string>();
+    const inlineLinks: FbInlineLink[] = [];
+
+    for (const segment of textSegments) {
+        if (segment.type === 'mention') {
+            const key = segment.id ?? segment.url ?? segment.text;
+
+            if (!mentions.has(key)) {
+                mentions.set(key, {
+                    name: segment.text,
+                    url: segment.url ?? null,
+                    id: segment.id ?? null,
+                });
+            }
+        } else if (segment.type === 'hashtag') {
+            const hashtag = segment.text.replace(/^#/, '');
+            // #Foo and #foo lead to the same page
+            hashtags.set(hashtag.toLowerCase(), hashtags.get(hashtag.toLowerCase()) ?? hashtag);
+        } else if (segment.type === 'link' && segment.url) {
+            inlineLinks.push({
+                text: segment.text,
+                url: segment.url,
+            });
+        }
+    }
+
+    return {
+        mentions: [...mentions.values()],
+        hashtags: [...hashtags.values()],
+        inlineLinks,
+        textSegments,
+        ...(render ? {
+            postHtml: segmentsToHtml(textSegments),
+            postMarkdown: segmentsToMarkdown(textSegments),
+        } : {}),
+    };
+};
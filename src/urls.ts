@@ -0,0 +1,166 @@
+import { InfoError } from './error';
+import { DESKTOP_ADDRESS, DESKTOP_HOST, LABELS } from './constants';
+import { getEventId, getGroupId, getPostId, getUrlLabel, storyFbToDesktopPermalink } from './functions';
+import type { RedirectResolver } from './links';
+import type { FbLabel } from './definitions';
+
+export interface FbResolvedUrl {
+    label: FbLabel;
+    /**
+     * Desktop url, the same for all the variants of the url
+     */
+    url: string;
+    /**
+     * Post, video, photo or event id, when the url points to one
+     */
+    id: string | null;
+    /**
+     * Page username or id, null when the url doesn't contain it,
+     * like /watch/?v= or /reel/
+     */
+    username: string | null;
+    /**
+     * Group id or vanity name, on group and group post urls
+     */
+    groupId: string | null;
+    /**
+     * Lowercase hashtag without the #, on hashtag urls
+     */
+    hashtag: string | null;
+}
+
+export const isFacebookHost = (hostname: string) => /(^|\.)facebook\.com$/.test(hostname);
+
+/**
+ * Links that need a request to know where they point to, fb.watch/<code>,
+ * /share/p/<code>, /share/v/<code>, /share/r/<code> and /share/<code>
+ */
+export const isShareUrl = (url: string) => {
+    try {
+        const { hostname, pathname } = new URL(url);
+
+        return hostname === 'fb.watch'
+            || (isFacebookHost(hostname) && /^\/share\/(?:[a-z]\/)?\w+/.test(pathname));
+    } catch (e) {
+        return false;
+    }
+};
+
+/**
+ * The login wall keeps the destination on the "next" parameter
+ */
+const unwrapLoginUrl = (url: string) => {
+    const parsed = new URL(url);
+
+    if (isFacebookHost(parsed.hostname) && /^\/login(\.php|\/)?/.test(parsed.pathname) && parsed.searchParams.get('next')) {
+        return parsed.searchParams.get('next')!;
+    }
+
+    return url;
+};
+
+/**
+ * Classifies the url and turns it into the desktop version, m.facebook.com,
+ * mbasic.facebook.com, story.php and /watch/?v= variants of the same post
+ * or video end up with the same url
+ *
+ * @throws {InfoError}
+ */
+export const canonicalizeFacebookUrl = (url: string): FbResolvedUrl => {
+    const label = getUrlLabel(url);
+    const parsed = new URL(url);
+
+    parsed.protocol = 'https:';
+    parsed.hostname = DESKTOP_HOST;
+    parsed.port = '';
+    parsed.hash = '';
+
+    let id: string | null = null;
+
+    if (label === LABELS.EVENT) {
+        id = getEventId(parsed.toString());
+    } else if ([LABELS.POST, LABELS.VIDEO, LABELS.PHOTO].includes(label)) {
+        id = getPostId(parsed.toString());
+    }
+
+    const ownerId = parsed.searchParams.get('id');
+    const groupId = getGroupId(parsed.toString());
+    const hashtag = label === LABELS.HASHTAG
+        ? decodeURIComponent(parsed.pathname.split('/')[2]).replace(/^#/, '').toLowerCase()
+        : null;
+    const [, firstPath, secondPath] = parsed.pathname.split('/');
+    let username: string | null = null;
+
+    if (firstPath === 'profile.php') {
+        username = ownerId;
+    } else if (firstPath === 'pg') {
+        // the old /pg/<username>/posts/ urls
+        username = secondPath || null;
+    } else if (!groupId) {
+        username = firstPath || null;
+    }
+
+    let canonical = parsed;
+
+    if (label === LABELS.GROUP) {
+        canonical = new URL(`/groups/${groupId}/`, DESKTOP_ADDRESS);
+    } else if (label === LABELS.HASHTAG) {
+        canonical = new URL(`/hashtag/${encodeURIComponent(hashtag!)}`, DESKTOP_ADDRESS);
+        username = null;
+    } else if (label === LABELS.EVENT) {
+        canonical = new URL(`/events/${id}/`, DESKTOP_ADDRESS);
+        username = null;
+    } else if (label === LABELS.POST) {
+        if (/\.php$/.test(parsed.pathname)) {
+            // story.php and permalink.php
+            canonical = storyFbToDesktopPermalink(parsed.toString())!;
+            username = ownerId;
+        } else {
+            canonical.search = '';
+        }
+    } else if (label === LABELS.VIDEO) {
+        if (['watch', 'reel'].includes(firstPath)) {
+            canonical = new URL(firstPath === 'reel' ? `/reel/${id}` : `/watch/?v=${id}`, DESKTOP_ADDRESS);
+            username = null;
+        } else {
+            canonical.search = '';
+        }
+    } else if (label === LABELS.PHOTO && /^\/photo(\.php|\/)/.test(parsed.pathname)) {
+        username = ownerId;
+    } else if (label === LABELS.ALBUM && firstPath === 'media') {
+        // /media/set/?set=a.<id> doesn't have the Page
+        username = null;
+    }
+
+    return {
+        label,
+        url: canonical.toString(),
+        id,
+        username,
+        groupId,
+        hashtag,
+    };
+};
+
+/**
+ * Resolves the share and short links to the post, video or Page they
+ * point to, then canonicalizes the url
+ *
+ * @throws {InfoError}
+ */
+export const resolveFacebookUrl = async (url: string, resolver: RedirectResolver): Promise<FbResolvedUrl> => {
+    if (!isShareUrl(url)) {
+        return canonicalizeFacebookUrl(url);
+    }
+
+    const destination = await resolver(url);
+
+    if (!destination || isShareUrl(destination)) {
+        throw new InfoError('Could not resolve the share url', {
+            url,
+            namespace: 'resolveFacebookUrl',
+        });
+    }
+
+    return canonicalizeFacebookUrl(unwrapLoginUrl(destination));
+};
@@ -0,0 +1,115 @@
+import { extendFunction, parseAltText } from '../src/functions';
+
+describe('parseAltText', () => {
+    test.each([
+        ['May be an image of 2 people, outdoor and text', {
+            description: '2 people, outdoor and text',
+            concepts: ['2 people', 'outdoor', 'text'],
+            ocrText: null,
+        }],
+        ['May be a closeup of flower', {
+            description: 'flower',
+            concepts: ['flower'],
+            ocrText: null,
+        }],
+        ['Image may contain: 1 person, smiling, standing and indoor', {
+            description: '1 person, smiling, standing and indoor',
+            concepts: ['1 person', 'smiling', 'standing', 'indoor'],
+            ocrText: null,
+        }],
+        ['May be an image of 1 person and text that says \'OPEN\'', {
+            description: '1 person and text that says \'OPEN\'',
+            concepts: ['1 person', 'text'],
+            ocrText: 'OPEN',
+        }],
+        ['May be an image of text that says "Grand opening, "best" prices and more"', {
+            concepts: ['text'],
+            ocrText: 'Grand opening, "best" prices and more',
+        }],
+        ['May be an image of food and text that says \u2018SALE 50% OFF\u2019.', {
+            concepts: ['food', 'text'],
+            ocrText: 'SALE 50% OFF',
+        }],
+        ['Photo by Some Page on June 12, 2020. May be an image of sky', {
+            description: 'sky',
+            concepts: ['sky'],
+            ocrText: null,
+        }],
+    ])('%s', (altText, expected) => {
+        expect(parseAltText(altText)).toEqual(expect.objectContaining(expected));
+    });
+
+    test.each([
+        ['No photo description available.', 'No photo description available.'],
+        ['Peut être une image de 2 personnes', 'Peut être une image de 2 personnes'],
+        ['  ', null],
+        [null, null],
+        [undefined, null],
+    ])('doesn\'t match %p', (altText, description) => {
+        expect(parseAltText(altText)).toEqual({
+            description,
+            concepts: [],
+            ocrText: null,
+        });
+    });
+});
+
+describe('extendFunction', () => {
+    const extend = async (code: string, output?: (data: any) => Promise<void>) => extendFunction({
+        key: 'extendOutputFunction',
+        output,
+        input: { extendOutputFunction: code },
+        helpers: {},
+    });
+
+    test('passes the item through without a function', async () => {
+        const output = jest.fn<Promise<void>, [any]>(async () => {});
+
+        await (await extend('', output))({ postId: '1' }, {});
+
+        expect(output).toHaveBeenCalledWith({ postId: '1' }, expect.anything());
+    });
+
+    test('compiles the function once', async () => {
+        const output = jest.fn<Promise<void>, [any]>(async () => {});
+        const fn = await extend(`(() => {
+            let calls = 0;
+
+            return ({ item }) => ({ ...item, calls: ++calls });
+        })()`, output);
+
+        await fn({ postId: '1' }, {});
+        await fn({ postId: '2' }, {});
+
+        expect(output.mock.calls.map(([data]) => data)).toEqual([
+            { postId: '1', calls: 1 },
+            { postId: '2', calls: 2 },
+        ]);
+    });
+
+    test('skips the undefined and null results', async () => {
+        const output = jest.fn<Promise<void>, [any]>(async () => {});
+
+        await (await extend('({ item }) => [item, null, undefined]', output))({ postId: '1' }, {});
+
+        expect(output).toHaveBeenCalledTimes(1);
+    });
+
+    test('reports the line of a syntax error', async () => {
+        await expect(extend('({ item }) => {\n    return item +;\n}')).rejects.toThrow(
+            /^"extendOutputFunction" parameter must be a function: .+ \(extendOutputFunction\.js:2\)$/,
+        );
+    });
+
+    test('reports the line of a runtime error', async () => {
+        const fn = await extend('({ item }) => {\n    const { value } = item.missing;\n    return value;\n}');
+
+        await expect(fn({ postId: '1' }, {})).rejects.toThrow(
+            /^Error in "extendOutputFunction": .+ \(extendOutputFunction\.js:2:\d+\)$/,
+        );
+    });
+
+    test('fails when the code isn\'t a function', async () => {
+        await expect(extend('1 + 1')).rejects.toThrow('"extendOutputFunction" parameter must be a function');
+    });
+});
@@ -0,0 +1,145 @@
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+
+import { createLinkNormalizer, createRedirectResolver } from '../src/links';
+import type { RedirectResolver } from '../src/links';
+import { resolveFacebookUrl } from '../src/urls';
+
+const FACEBOOK = 'https://www.facebook.com';
+
+/**
+ * Stand-in for the shorteners and the Facebook share links,
+ * path -> [status, location]
+ */
+const REDIRECTS: Record<string, [number, string]> = {
+    '/s/article': [301, '/s/article-hop'],
+    '/s/article-hop': [302, '/article?id=5&utm_source=facebook&fbclid=abc'],
+    '/s/article-copy': [302, '/article?id=5'],
+    '/s/missing': [302, '/gone'],
+    '/share/p/Ab12': [302, '/share/p/Ab12/hop'],
+    '/share/p/Ab12/hop': [301, '/permalink.php?story_fbid=123&id=456&__tn__=K'],
+    '/share/v/Cd34': [302, '/login/?next=https%3A%2F%2Fwww.facebook.com%2Freel%2F555%3Fs%3Dshare'],
+    '/watch-code/xyz': [301, '/watch/?v=789'],
+    '/share/loop': [302, '/share/loop'],
+};
+
+const PAGES = ['/article', '/permalink.php', '/login', '/watch'];
+
+describe('redirect resolver', () => {
+    let server: http.Server;
+    let base: string;
+    const hits = new Map<string, number>();
+
+    beforeAll(async () => {
+        server = http.createServer((req, res) => {
+            // the trailing slash is optional
+            const pathname = new URL(req.url!, 'http://localhost').pathname.replace(/(.)\/$/, '$1');
+
+            hits.set(pathname, (hits.get(pathname) ?? 0) + 1);
+
+            if (REDIRECTS[pathname]) {
+                const [status, location] = REDIRECTS[pathname];
+                res.writeHead(status, { location });
+            } else {
+                res.writeHead(PAGES.includes(pathname) ? 200 : 404, { 'content-type': 'text/html' });
+            }
+
+            res.end('<html></html>');
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    describe('createLinkNormalizer', () => {
+        const link = (url: string, fields = {}) => ({
+            url,
+            thumbUrl: null,
+            domain: null,
+            title: null,
+            text: null,
+            ...fields,
+        });
+
+        test('follows the redirect chains of the shortened links once', async () => {
+            const normalize = createLinkNormalizer({
+                resolver: createRedirectResolver({ timeoutSecs: 5 }),
+                shortenerHosts: ['127.0.0.1'],
+            });
+
+            const links = await normalize([
+                link(`${base}/s/article`, { title: 'Article' }),
+                link(`${base}/s/article`),
+                link(`${base}/s/article-copy`),
+            ], [
+                link(`${base}/article?id=5`, { text: 'From the preview', thumbUrl: 'https://example.com/thumb.jpg' }),
+            ]);
+
+            expect(links).toEqual([expect.objectContaining({
+                url: `${base}/article?id=5`,
+                originalUrl: `${base}/s/article`,
+                title: 'Article',
+                text: 'From the preview',
+                thumbUrl: 'https://example.com/thumb.jpg',
+                // ip addresses don't have one
+                registrableDomain: null,
+            })]);
+            expect(hits.get('/s/article')).toBe(1);
+        });
+
+        test('keeps the original url when the destination fails', async () => {
+            const normalize = createLinkNormalizer({
+                resolver: createRedirectResolver({ timeoutSecs: 5 }),
+                shortenerHosts: ['127.0.0.1'],
+            });
+
+            const links = await normalize([link(`${base}/s/missing?fbclid=abc`)]);
+
+            expect(links.map(({ url }) => url)).toEqual([`${base}/s/missing`]);
+        });
+
+        test('only resolves the shortener hosts', async () => {
+            const resolver = jest.fn<ReturnType<RedirectResolver>, Parameters<RedirectResolver>>(async () => null);
+            const normalize = createLinkNormalizer({ resolver, shortenerHosts: ['bit.ly'] });
+
+            await normalize([link(`${base}/s/article`), link('https://example.com/?utm_medium=social')]);
+
+            expect(resolver).not.toHaveBeenCalled();
+        });
+    });
+
+    describe('resolveFacebookUrl', () => {
+        // sends the Facebook urls to the local server
+        const resolver: RedirectResolver = async (url) => {
+            const destination = await createRedirectResolver({ timeoutSecs: 5 })(url.replace(FACEBOOK, base).replace('https://fb.watch', `${base}/watch-code`));
+
+            return destination?.replace(base, FACEBOOK) ?? null;
+        };
+
+        test.each([
+            [`${FACEBOOK}/share/p/Ab12/`, { label: 'POST', id: '123', username: '456', url: `${FACEBOOK}/permalink.php?story_fbid=123&id=456` }],
+            [`${FACEBOOK}/share/v/Cd34/`, { label: 'VIDEO', id: '555', username: null, url: `${FACEBOOK}/reel/555` }],
+            ['https://fb.watch/xyz/', { label: 'VIDEO', id: '789', username: null, url: `${FACEBOOK}/watch/?v=789` }],
+        ])('%s', async (url, expected) => {
+            expect(await resolveFacebookUrl(url, resolver)).toEqual(expect.objectContaining(expected));
+        });
+
+        test('fails when the share url can\'t be resolved', async () => {
+            await expect(resolveFacebookUrl(`${FACEBOOK}/share/loop`, resolver)).rejects.toThrow('Could not resolve the share url');
+        });
+
+        test('doesn\'t request the urls that aren\'t share links', async () => {
+            const noop = jest.fn<ReturnType<RedirectResolver>, Parameters<RedirectResolver>>(async () => null);
+
+            expect(await resolveFacebookUrl('https://m.facebook.com/story.php?story_fbid=1&id=2', noop)).toEqual(expect.objectContaining({
+                label: 'POST',
+                id: '1',
+            }));
+            expect(noop).not.toHaveBeenCalled();
+        });
+    });
+});
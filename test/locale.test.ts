@@ -0,0 +1,148 @@
+import { parseCount, parseDate, toLocale } from '../src/locale';
+
+import LANGUAGES = require('../src/languages.json');
+
+type CountTable = Array<[string, number | null]>;
+type DateTable = Array<[string, Date | null]>;
+
+// the relative dates are counted from here, the dates without year are in the last 12 months
+const NOW = new Date(2021, 5, 15, 12, 30);
+
+const ago = (unit: 'minute' | 'hour' | 'day' | 'week', amount: number) => {
+    const date = new Date(NOW);
+
+    switch (unit) {
+        case 'minute': date.setMinutes(date.getMinutes() - amount); break;
+        case 'hour': date.setHours(date.getHours() - amount); break;
+        case 'day': date.setDate(date.getDate() - amount); break;
+        case 'week': date.setDate(date.getDate() - (amount * 7)); break;
+        default:
+    }
+
+    return date;
+};
+
+/**
+ * Texts as they appear on Facebook, including the abbreviations
+ * that aren't part of the Intl data
+ */
+const FACEBOOK_COUNTS: Record<string, CountTable> = {
+    'en-US': [['1.5K', 1500], ['3.4K Comments', 3400], ['12M', 12000000], ['1,234 shares', 1234], ['No comments', null]],
+    'en-GB': [['2.1K', 2100], ['45 comments', 45]],
+    'de-DE': [['1,2 Tsd.', 1200], ['1.234 Kommentare', 1234], ['3,4 Mio.', 3400000]],
+    'es-ES': [['1,2 mil', 1200], ['3 mill.', 3000000], ['15 comentarios', 15]],
+    'es-LA': [['1,2 mil', 1200], ['2,345 veces compartido', 2345]],
+    'fr-FR': [['1,2 k', 1200], ['3,4 M', 3400000], ['1 234 commentaires', 1234]],
+    'it-IT': [['1,2 mila', 1200], ['2 mln', 2000000]],
+    'pt-BR': [['1,2 mil', 1200], ['3 mi', 3000000]],
+    'pt-PT': [['1,2 mil', 1200]],
+    'tr-TR': [['1,2 B', 1200], ['3 Mn', 3000000]],
+    'ru-RU': [['1,2 тыс.', 1200], ['5 млн', 5000000]],
+    'ja-JP': [['123万', 1230000], ['1.2万', 12000], ['345件', 345]],
+    'zh-CN': [['1.2万', 12000], ['3亿', 300000000]],
+    'zh-TW': [['1.2萬', 12000]],
+    'ko-KR': [['1.2만', 12000], ['3천', 3000]],
+    'ar-AR': [['١٢٣', 123], ['٢٫٥ ألف', 2500]],
+    'hi-IN': [['1.2 हज़ार', 1200]],
+    'sw-KE': [['elfu 1.2', 1200]],
+};
+
+const FACEBOOK_DATES: Record<string, DateTable> = {
+    'en-US': [
+        ['5 mins', ago('minute', 5)],
+        ['2 hrs', ago('hour', 2)],
+        ['3h', ago('hour', 3)],
+        ['5 minutes ago', ago('minute', 5)],
+        ['Yesterday at 14:05', new Date(2021, 5, 14, 14, 5)],
+        ['Yesterday at 2:05 PM', new Date(2021, 5, 14, 14, 5)],
+        ['March 5, 2019', new Date(2019, 2, 5)],
+        ['March 5 at 10:00 AM', new Date(2021, 2, 5, 10, 0)],
+        ['December 24', new Date(2020, 11, 24)],
+        ['Just now', ago('minute', 0)],
+        ['Sponsored', null],
+    ],
+    'en-GB': [['5 March 2019', new Date(2019, 2, 5)], ['2 hrs', ago('hour', 2)]],
+    'de-DE': [
+        ['2 Std.', ago('hour', 2)],
+        ['vor 2 Std.', ago('hour', 2)],
+        ['5. März um 14:05', new Date(2021, 2, 5, 14, 5)],
+        ['5. März 2019', new Date(2019, 2, 5)],
+        ['Gestern um 14:05', new Date(2021, 5, 14, 14, 5)],
+    ],
+    'es-ES': [['5 de marzo de 2019', new Date(2019, 2, 5)], ['hace 3 horas', ago('hour', 3)], ['Ayer a las 14:05', new Date(2021, 5, 14, 14, 5)]],
+    'fr-FR': [['5 mars 2019', new Date(2019, 2, 5)], ['il y a 3 heures', ago('hour', 3)], ['Hier à 14:05', new Date(2021, 5, 14, 14, 5)]],
+    'it-IT': [['5 marzo 2019', new Date(2019, 2, 5)], ['3 ore fa', ago('hour', 3)]],
+    'pt-BR': [['5 de março de 2019', new Date(2019, 2, 5)], ['há 3 horas', ago('hour', 3)]],
+    'nl-NL': [['5 maart 2019', new Date(2019, 2, 5)], ['3 uur geleden', ago('hour', 3)]],
+    'pl-PL': [['5 marca 2019', new Date(2019, 2, 5)], ['3 godz. temu', ago('hour', 3)]],
+    'ru-RU': [['5 марта 2019 г.', new Date(2019, 2, 5)], ['3 ч назад', ago('hour', 3)]],
+    'uk-UA': [['5 березня 2019 р.', new Date(2019, 2, 5)]],
+    'lt-LT': [['2019 m. kovo 5 d.', new Date(2019, 2, 5)]],
+    'eu-ES': [['2019ko martxoaren 5a', new Date(2019, 2, 5)]],
+    'he-IL': [['5 במרץ 2019', new Date(2019, 2, 5)]],
+    'ja-JP': [['2019年3月5日', new Date(2019, 2, 5)], ['3時間前', ago('hour', 3)]],
+    'zh-CN': [['2019年3月5日', new Date(2019, 2, 5)], ['3小时前', ago('hour', 3)]],
+    'ko-KR': [['2019년 3월 5일', new Date(2019, 2, 5)]],
+    'th-TH': [['5 มีนาคม 2562', new Date(2019, 2, 5)]],
+    'ar-AR': [['٥ مارس ٢٠١٩', new Date(2019, 2, 5)]],
+    'tr-TR': [['5 Mart 2019', new Date(2019, 2, 5)], ['3 sa', ago('hour', 3)]],
+};
+
+/**
+ * Texts formatted with the Intl data of the locale, the same
+ * data the parsing tables are derived from
+ */
+const intlCounts = (language: string): CountTable => {
+    const locale = toLocale(language);
+    const number = new Intl.NumberFormat(locale);
+    const compact = new Intl.NumberFormat(locale, { notation: 'compact' });
+
+    return [
+        [number.format(7), 7],
+        [number.format(1234), 1234],
+        [number.format(1234567), 1234567],
+        [compact.format(5000), 5000],
+        [compact.format(2300000), 2300000],
+    ];
+};
+
+const intlDates = (language: string): DateTable => {
+    const locale = toLocale(language);
+    const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'always' });
+    const short = new Intl.RelativeTimeFormat(locale, { numeric: 'always', style: 'short' });
+    const long = new Intl.DateTimeFormat(`${locale}-u-ca-gregory`, { dateStyle: 'long' });
+    const dayMonth = new Intl.DateTimeFormat(`${locale}-u-ca-gregory`, { day: 'numeric', month: 'long' });
+
+    return [
+        [relative.format(-5, 'minute'), ago('minute', 5)],
+        [relative.format(-3, 'hour'), ago('hour', 3)],
+        [short.format(-3, 'hour'), ago('hour', 3)],
+        [relative.format(-2, 'week'), ago('week', 2)],
+        [long.format(new Date(2019, 2, 5)), new Date(2019, 2, 5)],
+        [long.format(new Date(2018, 10, 23)), new Date(2018, 10, 23)],
+        [dayMonth.format(new Date(2021, 2, 5)), new Date(2021, 2, 5)],
+    ];
+};
+
+describe.each(Object.keys(LANGUAGES))('%s', (language) => {
+    test.each([...intlCounts(language), ...FACEBOOK_COUNTS[language] ?? []])('parseCount(%j) is %p', (text, expected) => {
+        expect(parseCount(text, language)).toBe(expected);
+    });
+
+    test.each([...intlDates(language), ...FACEBOOK_DATES[language] ?? []])('parseDate(%j) is %p', (text, expected) => {
+        expect(parseDate(text, language, NOW)).toBe(expected ? expected.toISOString() : null);
+    });
+});
+
+describe('fallbacks', () => {
+    test('empty texts', () => {
+        expect(parseCount('', 'en-US')).toBe(null);
+        expect(parseCount(null, 'en-US')).toBe(null);
+        expect(parseDate(undefined, 'en-US')).toBe(null);
+    });
+
+    test('english abbreviations are understood on any language', () => {
+        expect(parseCount('1.5K', 'de-DE')).toBe(1500);
+        expect(parseDate('3 hrs', 'de-DE', NOW)).toBe(ago('hour', 3).toISOString());
+    });
+});
@@ -0,0 +1,171 @@
+import Apify from 'apify';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import type { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+import { mediaDownloader } from '../src/media';
+
+/**
+ * Stand-in for the CDN, path -> [content type, body]
+ */
+const FILES: Record<string, [string, string]> = {
+    '/photo.jpg': ['image/jpeg', 'first photo'],
+    '/photo-copy.jpg': ['image/jpeg', 'first photo'],
+    '/other.png': ['image/png', 'second photo'],
+};
+
+const sha256 = (content: string) => crypto.createHash('sha256').update(content).digest('hex');
+
+describe('mediaDownloader', () => {
+    let server: http.Server;
+    let base: string;
+    let storage: string;
+    let directory: string;
+    const hits = new Map<string, number>();
+
+    const image = (pathname: string) => ({
+        link: `https://www.facebook.com/photo/?fbid=${pathname}`,
+        // the signature changes on every request
+        imageUrl: `${base}${pathname}?oh=${crypto.randomBytes(4).toString('hex')}`,
+    });
+
+    const downloader = async () => mediaDownloader({
+        directory,
+        maxFileSize: 1,
+        maxTotalSize: 10,
+    });
+
+    /**
+     * The state is kept on the default store of the run, unlike the
+     * media directory or the named store
+     */
+    const newRun = async () => {
+        await (await Apify.openKeyValueStore()).setValue('MEDIA', null);
+    };
+
+    beforeAll(async () => {
+        storage = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'storage-'));
+        process.env.APIFY_LOCAL_STORAGE_DIR = storage;
+
+        server = http.createServer((req, res) => {
+            const { pathname } = new URL(req.url!, 'http://localhost');
+            const file = FILES[pathname];
+
+            hits.set(pathname, (hits.get(pathname) ?? 0) + 1);
+
+            if (file) {
+                res.writeHead(200, { 'content-type': file[0] });
+                res.end(file[1]);
+            } else {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    beforeEach(async () => {
+        directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'media-'));
+        hits.clear();
+        await newRun();
+    });
+
+    afterEach(async () => {
+        await fs.promises.rm(directory, { recursive: true, force: true });
+    });
+
+    afterAll(async () => {
+        await new Promise((resolve) => server.close(resolve));
+        await fs.promises.rm(storage, { recursive: true, force: true });
+    });
+
+    test('stores the files under their content hash', async () => {
+        const media = await downloader();
+        const [photo, other] = await media.storeImages([image('/photo.jpg'), image('/other.png')]);
+
+        expect(photo).toEqual(expect.objectContaining({
+            storedKey: `${sha256('first photo')}.jpg`,
+            contentType: 'image/jpeg',
+            size: 11,
+            sha256: sha256('first photo'),
+        }));
+        expect(other.storedKey).toBe(`${sha256('second photo')}.png`);
+        expect(await fs.promises.readFile(path.join(directory, photo.storedKey!), 'utf8')).toBe('first photo');
+    });
+
+    test('stores the same content once', async () => {
+        const media = await downloader();
+        const [photo, copy] = await media.storeImages([image('/photo.jpg'), image('/photo-copy.jpg'), image('/photo.jpg')]);
+
+        expect(copy.storedKey).toBe(photo.storedKey);
+        expect(hits.get('/photo.jpg')).toBe(1);
+        expect((await fs.promises.readdir(directory)).filter((file) => !file.startsWith('MEDIA_INDEX'))).toEqual([photo.storedKey]);
+    });
+
+    test('skips the files stored by an earlier run', async () => {
+        const first = await downloader();
+        const [stored] = await first.storeImages([image('/photo.jpg')]);
+        await first.persistState();
+
+        await newRun();
+        hits.clear();
+
+        const [photo] = await (await downloader()).storeImages([image('/photo.jpg')]);
+
+        expect(photo).toEqual(expect.objectContaining({
+            storedKey: stored.storedKey,
+            size: stored.size,
+            sha256: stored.sha256,
+        }));
+        expect(hits.get('/photo.jpg')).toBeUndefined();
+    });
+
+    test('skips the files stored by an earlier run in a named store', async () => {
+        const named = async () => mediaDownloader({
+            storeName: 'media-test',
+            maxFileSize: 1,
+            maxTotalSize: 10,
+        });
+
+        const first = await named();
+        const [stored] = await first.storeImages([image('/other.png')]);
+        await first.persistState();
+
+        await newRun();
+        hits.clear();
+
+        const [photo] = await (await named()).storeImages([image('/other.png')]);
+        const record = await (await Apify.openKeyValueStore('media-test')).getValue(stored.storedKey!) as Buffer;
+
+        expect(photo.storedKey).toBe(`${sha256('second photo')}.png`);
+        expect(hits.get('/other.png')).toBeUndefined();
+        expect(record.toString()).toBe('second photo');
+    });
+
+    test('downloads the files again when they are gone', async () => {
+        const first = await downloader();
+        const [stored] = await first.storeImages([image('/photo.jpg')]);
+        await first.persistState();
+        await fs.promises.unlink(path.join(directory, stored.storedKey!));
+
+        await newRun();
+        hits.clear();
+
+        const [photo] = await (await downloader()).storeImages([image('/photo.jpg')]);
+
+        expect(photo.storedKey).toBe(stored.storedKey);
+        expect(hits.get('/photo.jpg')).toBe(1);
+        expect(fs.existsSync(path.join(directory, stored.storedKey!))).toBe(true);
+    });
+
+    test('keeps the images without a stored file', async () => {
+        const [missing] = await (await downloader()).storeImages([image('/missing.jpg')]);
+
+        expect(missing).not.toHaveProperty('storedKey');
+    });
+});
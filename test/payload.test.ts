@@ -0,0 +1,169 @@
+import {
+    findObjectLiterals,
+    getPostStatsFromScripts,
+    parseLiteral,
+    walk,
+} from '../src/payload';
+
+/**
+ * Shaped like the ScheduledServerJS scripts that carry the prefetched
+ * GraphQL results on the post pages
+ */
+const STORY_SCRIPT = `requireLazy(["ScheduledServerJS"],function(s){s.handle({"require":[["RelayPrefetchedStreamCache","next",[],["adp_CometSinglePostContentQueryRelayPreloader_1",{"__bbox":{"complete":true,"result":{"data":{"node":{"__typename":"Story","post_id":"123","url":"https:\\/\\/www.facebook.com\\/somepage\\/posts\\/123","message":{"text":"Caf\\u00e9 \\"open\\" today"},"attached_story":{"__typename":"Story","post_id":"456","feedback":{"reaction_count":{"count":9000},"share_count":{"count":800},"comment_count":{"total_count":700}}},"feedback":{"reaction_count":{"count":12},"share_count":{"count":3},"comment_count":{"total_count":4},"top_reactions":{"edges":[{"node":{"reaction_type":"LIKE"},"reaction_count":10},{"node":{"reaction_type":"LOVE"},"reaction_count":2}]},"comments":{"edges":[{"node":{"feedback":{"reaction_count":{"count":99}}}}]}}}}}}}]]]});});`;
+
+const BOOTLOADER_SCRIPT = `(function(){var s=document.createElement('script');s.src='{"not":"an object"}';})();
+window.__bootstrap = {handlers: [], config: {locale: 'en_US', debug: false, version: .5,},};`;
+
+describe('parseLiteral', () => {
+    test.each([
+        ['{"a":1}', { a: 1 }],
+        ['{a: 1, \'b\': "two", 3: [true, false, null],}', { a: 1, b: 'two', 3: [true, false, null] }],
+        ['{"a":{"b":[{"c":[]},{"d":{}}]}}', { a: { b: [{ c: [] }, { d: {} }] } }],
+        ['[1, -2.5, .5, 1e3, -1E-2,]', [1, -2.5, 0.5, 1000, -0.01]],
+        ['{"a":undefined}', { a: undefined }],
+    ])('%s', (text, expected) => {
+        expect(parseLiteral(text).value).toEqual(expected);
+    });
+
+    test.each([
+        ['"a\\"b"', 'a"b'],
+        ['\'it\\\'s\'', 'it\'s'],
+        ['"line\\nbreak\\ttab"', 'line\nbreak\ttab'],
+        ['"caf\\u00e9 \\x41"', 'café A'],
+        ['"https:\\/\\/www.facebook.com\\/"', 'https://www.facebook.com/'],
+        ['"\\ud83d\\ude00"', '😀'],
+    ])('unescapes %s', (text, expected) => {
+        expect(parseLiteral(text).value).toBe(expected);
+    });
+
+    test('returns the end of the literal', () => {
+        const text = 'x = {"a":[1,2]}; y()';
+
+        expect(parseLiteral(text, 4)).toEqual({ value: { a: [1, 2] }, end: 15 });
+    });
+
+    test.each([
+        '{"a":1',
+        '{"a":[1,2}',
+        '{"a":"unterminated}',
+        '{"a":"broken\\u12"}',
+        '{"a" 1}',
+        '"line\nbreak"',
+    ])('fails on the malformed or truncated %s', (text) => {
+        expect(() => parseLiteral(text)).toThrow();
+    });
+
+    describe('rejects code instead of running it', () => {
+        afterEach(() => {
+            delete (global as any).pwned;
+        });
+
+        test.each([
+            '{"a":alert(1)}',
+            '{"a":(global.pwned = true)}',
+            '{"a":process.exit(1)}',
+            '{"a":window}',
+            '{"a":`template ${global.pwned = true}`}',
+            '{"a":function(){ global.pwned = true; }}',
+            '{"a":() => 1}',
+            '{"a":1 + 1}',
+            '{"a":new Date()}',
+        ])('%s', (text) => {
+            expect(() => parseLiteral(text)).toThrow();
+            expect((global as any).pwned).toBeUndefined();
+        });
+    });
+});
+
+describe('findObjectLiterals', () => {
+    test('finds the outermost objects of a script', () => {
+        const [payload] = findObjectLiterals(STORY_SCRIPT);
+
+        expect(findObjectLiterals(STORY_SCRIPT)).toHaveLength(1);
+        expect(payload.require[0][0]).toBe('RelayPrefetchedStreamCache');
+        expect(payload.require[0][3][1].__bbox.result.data.node.message.text).toBe('Café "open" today'); // eslint-disable-line no-underscore-dangle
+    });
+
+    test('skips the objects inside strings and function bodies', () => {
+        expect(findObjectLiterals(BOOTLOADER_SCRIPT)).toEqual([
+            { handlers: [], config: { locale: 'en_US', debug: false, version: 0.5 } },
+        ]);
+    });
+
+    test('keeps the objects before a truncated one', () => {
+        expect(findObjectLiterals('a({"a":1}); b({"b":[2,')).toEqual([{ a: 1 }]);
+    });
+
+    test('ignores braces in template literals', () => {
+        expect(findObjectLiterals('const t = `${x} {"a":1}`; f({"b":2});')).toEqual([{ b: 2 }]);
+    });
+
+    test('returns nothing for code without literals', () => {
+        expect(findObjectLiterals('if (a) { b(); } else { c = d; }')).toEqual([]);
+    });
+});
+
+describe('walk', () => {
+    test('visits every object but not the arrays', () => {
+        const visited: Array<Record<string, any>> = [];
+        const tree = { a: [{ b: 1 }, [{ c: { d: 2 } }]], e: 'f' };
+
+        walk(tree, (node) => visited.push(node));
+
+        expect(visited).toEqual([tree, { b: 1 }, { c: { d: 2 } }, { d: 2 }]);
+    });
+
+    test('visits the repeated nodes once', () => {
+        const shared = { id: 1 };
+        const tree: Record<string, any> = { a: shared, b: [shared] };
+        tree.self = tree;
+
+        const cb = jest.fn();
+
+        walk(tree, cb);
+
+        expect(cb).toHaveBeenCalledTimes(2);
+    });
+
+    test.each([null, undefined, 'text', 1])('ignores %p', (value) => {
+        const cb = jest.fn();
+
+        walk(value, cb);
+
+        expect(cb).not.toHaveBeenCalled();
+    });
+});
+
+describe('getPostStatsFromScripts', () => {
+    const trees = findObjectLiterals(STORY_SCRIPT);
+
+    test('reads the stats of the post, not the shared post or the comments', () => {
+        expect(getPostStatsFromScripts(trees, { url: 'https://www.facebook.com/somepage/posts/123' })).toEqual({
+            stats: {
+                comments: 4,
+                reactions: 12,
+                shares: 3,
+                views: null,
+                reactionsBreakdown: { like: 10, love: 2 },
+            },
+            missing: [],
+        });
+    });
+
+    test('matches the post by id', () => {
+        expect(getPostStatsFromScripts(trees, { postId: '123' }).stats).toEqual(expect.objectContaining({ reactions: 12 }));
+    });
+
+    test('keeps the stats of another post as missing', () => {
+        expect(getPostStatsFromScripts(trees, { url: 'https://www.facebook.com/somepage/posts/12' })).toEqual({
+            stats: {
+                comments: null,
+                reactions: null,
+                shares: null,
+                views: null,
+                reactionsBreakdown: {},
+            },
+            missing: ['comments', 'reactions', 'shares'],
+        });
+    });
+});
@@ -0,0 +1,117 @@
+import { cleanProfileUrl, toRichText } from '../src/text';
+import type { RawTextSegment } from '../src/text';
+
+const text = (value: string): RawTextSegment => ({ type: 'text', text: value });
+
+const anchor = (value: string, href: string, hovercard: string | null = null): RawTextSegment => ({
+    type: 'anchor',
+    text: value,
+    href,
+    hovercard,
+});
+
+describe('cleanProfileUrl', () => {
+    test.each([
+        ['https://www.facebook.com/someone?__cft__[0]=AZX&__tn__=-]K-R', 'https://www.facebook.com/someone'],
+        ['https://www.facebook.com/profile.php?id=100004&eid=ARB&fref=mentions&hc_ref=ART', 'https://www.facebook.com/profile.php?id=100004'],
+        ['https://www.facebook.com/hashtag/travel?__eep__=6', 'https://www.facebook.com/hashtag/travel'],
+        ['/someone?fref=tag', 'https://www.facebook.com/someone'],
+    ])('%s', (url, expected) => {
+        expect(cleanProfileUrl(url)).toBe(expected);
+    });
+});
+
+describe('toRichText', () => {
+    test('reads the mentions by their hovercard', () => {
+        const rich = toRichText([
+            text('Thanks '),
+            anchor('Jane Doe', 'https://www.facebook.com/jane.doe?__tn__=-]K', '/ajax/hovercard/user.php?id=4&extragetparams=%7B%7D'),
+            text(' and '),
+            anchor('Some Page', 'https://www.facebook.com/profile.php?id=100004&fref=mentions', '/ajax/hovercard/page.php?id=100004'),
+            text(', again '),
+            anchor('Jane', 'https://www.facebook.com/jane.doe', '/ajax/hovercard/user.php?id=4'),
+        ]);
+
+        expect(rich.mentions).toEqual([
+            { name: 'Jane Doe', url: 'https://www.facebook.com/jane.doe', id: '4' },
+            { name: 'Some Page', url: 'https://www.facebook.com/profile.php?id=100004', id: '100004' },
+        ]);
+        expect(rich.textSegments.map(({ type }) => type)).toEqual(['text', 'mention', 'text', 'mention', 'text', 'mention']);
+    });
+
+    test('keeps the first spelling of the hashtags', () => {
+        const rich = toRichText([
+            anchor('#Travel', 'https://www.facebook.com/hashtag/travel?__eep__=6&__tn__=*NK'),
+            text(' '),
+            anchor('#travel', 'https://www.facebook.com/hashtag/travel'),
+            text(' '),
+            anchor('#food', 'https://m.facebook.com/hashtag/food'),
+        ]);
+
+        expect(rich.hashtags).toEqual(['Travel', 'food']);
+        expect(rich.textSegments[0]).toEqual({
+            type: 'hashtag',
+            text: '#Travel',
+            url: 'https://www.facebook.com/hashtag/travel',
+        });
+    });
+
+    test('unwraps the links and strips the tracking', () => {
+        const rich = toRichText([
+            text('Read '),
+            anchor('example.com/article', `https://l.facebook.com/l.php?u=${encodeURIComponent('https://example.com/article?utm_source=fb&id=1&fbclid=IwAR')}&h=AT0`),
+            text(' now'),
+        ]);
+
+        expect(rich.inlineLinks).toEqual([{ text: 'example.com/article', url: 'https://example.com/article?id=1' }]);
+        expect(rich.textSegments).toEqual([
+            { type: 'text', text: 'Read ' },
+            { type: 'link', text: 'example.com/article', url: 'https://example.com/article?id=1' },
+            { type: 'text', text: ' now' },
+        ]);
+    });
+
+    test('the anchors without href are text', () => {
+        expect(toRichText([{ type: 'anchor', text: 'See more', href: null }]).textSegments).toEqual([
+            { type: 'text', text: 'See more' },
+        ]);
+    });
+
+    test.each([
+        ['Hi 👋 there', ['text', 'emoji', 'text']],
+        ['Family 👨‍👩‍👧 day', ['text', 'emoji', 'text']],
+        ['Wave 👋🏽👋🏿', ['text', 'emoji', 'emoji']],
+        ['Go 🇨🇿!', ['text', 'emoji', 'text']],
+        ['❤️ it', ['emoji', 'text']],
+    ])('splits the emojis of %s', (value, types) => {
+        const { textSegments } = toRichText([text(value)]);
+
+        expect(textSegments.map(({ type }) => type)).toEqual(types);
+
+        // the segments keep the offsets of the original text
+        let offset = 0;
+
+        for (const segment of textSegments) {
+            expect(value.slice(offset, offset + segment.text.length)).toBe(segment.text);
+            offset += segment.text.length;
+        }
+
+        expect(offset).toBe(value.length);
+    });
+
+    test('joins the text segments and trims the whole text', () => {
+        expect(toRichText([text('  first\n'), text('second  '), text('')]).textSegments).toEqual([
+            { type: 'text', text: 'first\nsecond' },
+        ]);
+    });
+
+    test('renders the html and markdown only when asked', () => {
+        const raw = [text('<b> & '), anchor('link', 'https://example.com/?a=1&b=2'), text('\n*bold*')];
+
+        expect(toRichText(raw)).not.toHaveProperty('postHtml');
+        expect(toRichText(raw, { render: true })).toEqual(expect.objectContaining({
+            postHtml: '&lt;b&gt; &amp; <a href="https://example.com/?a=1&amp;b=2">link</a><br>*bold*',
+            postMarkdown: '\\<b\\> & [link](<https://example.com/?a=1&b=2>)  \n\\*bold\\*',
+        }));
+    });
+});
@@ -0,0 +1,86 @@
+import { InfoError } from '../src/error';
+import type { RedirectResolver } from '../src/links';
+import { canonicalizeFacebookUrl, isShareUrl, resolveFacebookUrl } from '../src/urls';
+
+describe('canonicalizeFacebookUrl', () => {
+    test.each([
+        ['https://m.facebook.com/somepage/posts/123?__tn__=K', { label: 'POST', id: '123', username: 'somepage', url: 'https://www.facebook.com/somepage/posts/123' }],
+        ['https://www.facebook.com/story.php?story_fbid=123&id=456', { label: 'POST', id: '123', username: '456', url: 'https://www.facebook.com/permalink.php?story_fbid=123&id=456' }],
+        ['https://www.facebook.com/profile.php?id=100004', { label: 'PAGE', id: null, username: '100004' }],
+        ['https://www.facebook.com/pg/somepage/posts/', { label: 'PAGE', id: null, username: 'somepage' }],
+        ['https://www.facebook.com/watch/?v=789&ref=share', { label: 'VIDEO', id: '789', username: null, url: 'https://www.facebook.com/watch/?v=789' }],
+        ['https://m.facebook.com/reel/555?s=share', { label: 'VIDEO', id: '555', username: null, url: 'https://www.facebook.com/reel/555' }],
+        ['https://www.facebook.com/groups/somegroup/posts/321/', { label: 'POST', username: null, groupId: 'somegroup' }],
+        ['https://www.facebook.com/events/999/?ref=feed', { label: 'EVENT', id: '999', username: null, url: 'https://www.facebook.com/events/999/' }],
+        ['https://www.facebook.com/hashtag/Travel', { label: 'HASHTAG', hashtag: 'travel', username: null, url: 'https://www.facebook.com/hashtag/travel' }],
+        ['https://mbasic.facebook.com/somepage/posts/123/?refid=52', { label: 'POST', id: '123', username: 'somepage', url: 'https://www.facebook.com/somepage/posts/123/' }],
+        ['https://m.facebook.com/permalink.php?story_fbid=123&id=456&ref=page', { label: 'POST', id: '123', username: '456', url: 'https://www.facebook.com/permalink.php?story_fbid=123&id=456' }],
+        ['https://mbasic.facebook.com/story.php?story_fbid=123&id=456', { label: 'POST', id: '123', username: '456', url: 'https://www.facebook.com/permalink.php?story_fbid=123&id=456' }],
+        ['https://m.facebook.com/pg/somepage/about/', { label: 'PAGE', id: null, username: 'somepage' }],
+        ['https://m.facebook.com/somepage/', { label: 'PAGE', id: null, username: 'somepage', url: 'https://www.facebook.com/somepage/' }],
+        ['https://www.facebook.com/reel/555/', { label: 'VIDEO', id: '555', username: null, url: 'https://www.facebook.com/reel/555' }],
+        ['https://mbasic.facebook.com/somepage/videos/777/?ref=share', { label: 'VIDEO', id: '777', username: 'somepage', url: 'https://www.facebook.com/somepage/videos/777/' }],
+    ])('%s', (url, expected) => {
+        expect(canonicalizeFacebookUrl(url)).toEqual(expect.objectContaining(expected));
+    });
+});
+
+describe('isShareUrl', () => {
+    test.each([
+        ['https://fb.watch/abc123/', true],
+        ['https://www.facebook.com/share/p/Ab12/', true],
+        ['https://m.facebook.com/share/v/Cd34/', true],
+        ['https://www.facebook.com/share/r/Ef56/', true],
+        ['https://www.facebook.com/share/Gh78', true],
+        ['https://www.facebook.com/somepage/posts/123', false],
+        ['https://www.facebook.com/sharer/sharer.php?u=https://example.com', false],
+        ['https://example.com/share/p/Ab12/', false],
+        ['https://notfacebook.com/share/p/Ab12/', false],
+        ['not a url', false],
+    ])('%s', (url, expected) => {
+        expect(isShareUrl(url)).toBe(expected);
+    });
+});
+
+describe('resolveFacebookUrl', () => {
+    const stub = (destination: string | null) => jest.fn<ReturnType<RedirectResolver>, Parameters<RedirectResolver>>(async () => destination);
+
+    test('canonicalizes the destination of the share url', async () => {
+        const resolver = stub('https://m.facebook.com/story.php?story_fbid=123&id=456&mibextid=abc');
+
+        expect(await resolveFacebookUrl('https://www.facebook.com/share/p/Ab12/', resolver)).toEqual(expect.objectContaining({
+            label: 'POST',
+            id: '123',
+            username: '456',
+            url: 'https://www.facebook.com/permalink.php?story_fbid=123&id=456',
+        }));
+        expect(resolver).toHaveBeenCalledWith('https://www.facebook.com/share/p/Ab12/');
+    });
+
+    test('follows the destination behind the login wall', async () => {
+        const resolver = stub(`https://www.facebook.com/login/?next=${encodeURIComponent('https://www.facebook.com/reel/555/?s=share')}`);
+
+        expect(await resolveFacebookUrl('https://www.facebook.com/share/r/Ef56/', resolver)).toEqual(expect.objectContaining({
+            label: 'VIDEO',
+            id: '555',
+            url: 'https://www.facebook.com/reel/555',
+        }));
+    });
+
+    test.each([
+        ['unresolved', null],
+        ['resolved to another share url', 'https://www.facebook.com/share/p/Other/'],
+    ])('fails when the share url is %s', async (_, destination) => {
+        await expect(resolveFacebookUrl('https://fb.watch/abc123/', stub(destination))).rejects.toThrow(InfoError);
+    });
+
+    test('doesn\'t resolve the other urls', async () => {
+        const resolver = stub(null);
+
+        expect(await resolveFacebookUrl('https://m.facebook.com/somepage/', resolver)).toEqual(expect.objectContaining({
+            label: 'PAGE',
+            username: 'somepage',
+        }));
+        expect(resolver).not.toHaveBeenCalled();
+    });
+});